@@ -0,0 +1,118 @@
+import type { TrustedInputCommand } from '../types';
+import { getKeyInfo, type KeyInfo } from '../utils/keys';
+
+const PROTOCOL_VERSION = '1.3';
+
+// Modifier bit of Shift in Input.dispatchKeyEvent
+const SHIFT_MODIFIER = 8;
+
+// Tabs the debugger is attached to for trusted input
+const attachedTabs = new Set<number>();
+
+// The debugger can also be detached from outside, e.g. when the user cancels the infobar
+chrome.debugger.onDetach.addListener((source) => {
+  if (source.tabId !== undefined) attachedTabs.delete(source.tabId);
+});
+
+function sendCommand(tabId: number, method: string, params: object): Promise<unknown> {
+  return chrome.debugger.sendCommand({ tabId }, method, params);
+}
+
+// Attach the debugger to a tab unless it already is
+async function ensureAttached(tabId: number): Promise<void> {
+  if (attachedTabs.has(tabId)) return;
+  try {
+    await chrome.debugger.attach({ tabId }, PROTOCOL_VERSION);
+  } catch (error) {
+    // Still attached by this extension from before the worker was suspended
+    const targets = await chrome.debugger.getTargets();
+    const ours = targets.some(
+      (t) => t.tabId === tabId && t.attached && t.extensionId === chrome.runtime.id
+    );
+    if (!ours) throw error;
+  }
+  attachedTabs.add(tabId);
+}
+
+// Detach the debugger from a tab once playback in it is over
+export async function detachDebugger(tabId: number): Promise<void> {
+  if (!attachedTabs.delete(tabId)) return;
+  try {
+    await chrome.debugger.detach({ tabId });
+  } catch (error) {
+    console.warn('Flow Recorder: Could not detach debugger:', error);
+  }
+}
+
+// Press and release a key; keys that produce text also fire keypress and input
+async function pressKey(tabId: number, info: KeyInfo, text?: string): Promise<void> {
+  const key = {
+    key: info.key,
+    code: info.code,
+    windowsVirtualKeyCode: info.keyCode,
+    nativeVirtualKeyCode: info.keyCode,
+    modifiers: info.shift ? SHIFT_MODIFIER : 0,
+  };
+  await sendCommand(tabId, 'Input.dispatchKeyEvent', {
+    ...key,
+    type: text ? 'keyDown' : 'rawKeyDown',
+    text,
+    unmodifiedText: text,
+  });
+  await sendCommand(tabId, 'Input.dispatchKeyEvent', { ...key, type: 'keyUp' });
+}
+
+// Text a key produces, if any (Enter produces a carriage return)
+function getKeyText(info: KeyInfo): string | undefined {
+  if (info.key === 'Enter') return '\r';
+  return info.key.length === 1 ? info.key : undefined;
+}
+
+// Dispatch input to a tab through the Chrome DevTools Protocol, so pages receive it as trusted
+// (isTrusted=true) events, like input from the user
+export async function dispatchTrustedInput(
+  tabId: number,
+  command: TrustedInputCommand
+): Promise<void> {
+  await ensureAttached(tabId);
+
+  switch (command.kind) {
+    case 'click': {
+      const point = { x: command.x, y: command.y };
+      await sendCommand(tabId, 'Input.dispatchMouseEvent', { type: 'mouseMoved', ...point });
+      for (const type of ['mousePressed', 'mouseReleased']) {
+        await sendCommand(tabId, 'Input.dispatchMouseEvent', {
+          type,
+          ...point,
+          button: 'left',
+          buttons: type === 'mousePressed' ? 1 : 0,
+          clickCount: 1,
+        });
+      }
+      break;
+    }
+
+    case 'insert-text':
+      await sendCommand(tabId, 'Input.insertText', { text: command.text });
+      break;
+
+    case 'type':
+      for (const char of command.text) {
+        const info = getKeyInfo(char);
+        if (info.code) {
+          await pressKey(tabId, info, getKeyText(info));
+        } else {
+          // Characters without a key of their own are entered like an input method would
+          await sendCommand(tabId, 'Input.insertText', { text: char });
+        }
+        await new Promise((r) => setTimeout(r, command.keyDelay));
+      }
+      break;
+
+    case 'key': {
+      const info = getKeyInfo(command.key);
+      await pressKey(tabId, info, getKeyText(info));
+      break;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+// Desktop notifications asking the user to act in a playback tab; their IDs carry the tab ID
+const CAPTCHA_PREFIX = 'captcha:';
+
+// Clicking a notification brings its playback tab to the front
+chrome.notifications.onClicked.addListener(async (notificationId) => {
+  if (!notificationId.startsWith(CAPTCHA_PREFIX)) return;
+  const tabId = Number(notificationId.slice(CAPTCHA_PREFIX.length));
+  try {
+    const tab = await chrome.tabs.update(tabId, { active: true });
+    if (tab?.windowId !== undefined) await chrome.windows.update(tab.windowId, { focused: true });
+  } catch (error) {
+    console.warn('Flow Recorder: Could not show playback tab:', error);
+  }
+  chrome.notifications.clear(notificationId);
+});
+
+// Tell the user that playback in a tab waits for them to solve a CAPTCHA
+export async function notifyCaptcha(tabId: number, flowName: string, type: string): Promise<void> {
+  try {
+    await chrome.notifications.create(CAPTCHA_PREFIX + tabId, {
+      type: 'basic',
+      iconUrl: 'icons/icon128.png',
+      title: `${type} needs solving`,
+      message: `"${flowName}" is paused until the ${type} is solved. Click to show the tab.`,
+      requireInteraction: true,
+      priority: 2,
+    });
+  } catch (error) {
+    console.warn('Flow Recorder: Could not show notification:', error);
+  }
+}
+
+// Remove the CAPTCHA notification of a tab once playback goes on
+export function clearCaptchaNotification(tabId: number): void {
+  chrome.notifications.clear(CAPTCHA_PREFIX + tabId);
+}
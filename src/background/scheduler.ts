@@ -0,0 +1,166 @@
+import type { FlowSchedule } from '../types';
+import {
+  deleteSchedule,
+  generateId,
+  getFlow,
+  getSchedules,
+  saveRun,
+  saveSchedule,
+} from '../utils/storage';
+import { getNextRunTime } from '../utils/schedule';
+
+// Alarms of schedules are named after the schedule ID behind this prefix
+const ALARM_PREFIX = 'schedule:';
+
+// Alarms may fire slightly before the time they were set for
+const EARLY_ALARM_TOLERANCE_MS = 1000;
+
+// A run that was due longer ago than this was missed, e.g. while the browser was closed
+const MISSED_RUN_GRACE_MS = 2 * 60 * 1000;
+
+// Start playback for a due schedule (throws when the run cannot start)
+export type ScheduledRunStarter = (schedule: FlowSchedule) => Promise<unknown>;
+
+// Schedules whose due run is being handled, so an alarm and the startup check never both start it
+const dueSchedules = new Set<string>();
+
+// Create or clear the alarm of a schedule to match its next run time
+async function armSchedule(schedule: FlowSchedule): Promise<void> {
+  const name = ALARM_PREFIX + schedule.id;
+  if (schedule.enabled && schedule.nextRunAt !== null) {
+    await chrome.alarms.create(name, { when: schedule.nextRunAt });
+  } else {
+    await chrome.alarms.clear(name);
+  }
+}
+
+// Save a schedule edited in the UI, computing its next run time and arming its alarm
+export async function updateSchedule(schedule: FlowSchedule): Promise<FlowSchedule> {
+  const updated: FlowSchedule = {
+    ...schedule,
+    nextRunAt: schedule.enabled ? getNextRunTime(schedule) : null,
+  };
+  await saveSchedule(updated);
+  await armSchedule(updated);
+  return updated;
+}
+
+// Delete a schedule and its alarm
+export async function removeSchedule(scheduleId: string): Promise<void> {
+  await deleteSchedule(scheduleId);
+  await chrome.alarms.clear(ALARM_PREFIX + scheduleId);
+}
+
+// Add a scheduled run that never played to the flow's history, so gaps show up there
+async function recordUnplayedRun(
+  schedule: FlowSchedule,
+  flowName: string,
+  dueAt: number,
+  status: 'failed' | 'stopped',
+  reason: string
+): Promise<void> {
+  await saveRun({
+    id: generateId(),
+    flowId: schedule.flowId,
+    flowName,
+    startedAt: dueAt,
+    endedAt: dueAt,
+    status,
+    stopReason: reason,
+    scheduleId: schedule.id,
+    steps: [],
+    rowResults: [],
+  });
+}
+
+// Run a schedule if it is due: start its flow (or skip a missed run) and arm its next run
+async function runIfDue(scheduleId: string, start: ScheduledRunStarter): Promise<void> {
+  if (dueSchedules.has(scheduleId)) return;
+  dueSchedules.add(scheduleId);
+
+  try {
+    const schedule = (await getSchedules()).find((s) => s.id === scheduleId);
+    if (!schedule) {
+      await chrome.alarms.clear(ALARM_PREFIX + scheduleId);
+      return;
+    }
+
+    const now = Date.now();
+    if (
+      !schedule.enabled ||
+      schedule.nextRunAt === null ||
+      schedule.nextRunAt > now + EARLY_ALARM_TOLERANCE_MS
+    ) {
+      await armSchedule(schedule);
+      return;
+    }
+
+    // Drop schedules whose flow no longer exists
+    const flow = await getFlow(schedule.flowId);
+    if (!flow) {
+      await removeSchedule(schedule.id);
+      return;
+    }
+
+    // Arm the next run first, so the schedule keeps going whatever happens to this one
+    const dueAt = schedule.nextRunAt;
+    const missed = now - dueAt > MISSED_RUN_GRACE_MS;
+    const skip = missed && schedule.missedRuns === 'skip';
+    const next: FlowSchedule = {
+      ...schedule,
+      nextRunAt: getNextRunTime(schedule, now),
+      lastRunAt: skip ? schedule.lastRunAt : now,
+      lastError: undefined,
+    };
+    await saveSchedule(next);
+    await armSchedule(next);
+
+    if (skip) {
+      console.log(`Flow Recorder: Skipping missed scheduled run of "${flow.name}"`);
+      await recordUnplayedRun(
+        schedule,
+        flow.name,
+        dueAt,
+        'stopped',
+        'Missed while the browser was closed'
+      );
+      return;
+    }
+
+    try {
+      await start(schedule);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Flow Recorder: Scheduled run of "${flow.name}" could not start:`, message);
+      await recordUnplayedRun(
+        schedule,
+        flow.name,
+        now,
+        'failed',
+        `Scheduled run could not start: ${message}`
+      );
+
+      const current = (await getSchedules()).find((s) => s.id === schedule.id);
+      if (current) await saveSchedule({ ...current, lastError: message });
+    }
+  } finally {
+    dueSchedules.delete(scheduleId);
+  }
+}
+
+// Handle a fired alarm if it belongs to a schedule
+export async function handleScheduleAlarm(
+  alarm: chrome.alarms.Alarm,
+  start: ScheduledRunStarter
+): Promise<void> {
+  if (!alarm.name.startsWith(ALARM_PREFIX)) return;
+  await runIfDue(alarm.name.slice(ALARM_PREFIX.length), start);
+}
+
+// Handle runs missed while the browser was closed and re-create the alarms of all
+// schedules, which are not guaranteed to survive a browser restart or extension update
+export async function restoreSchedules(start: ScheduledRunStarter): Promise<void> {
+  for (const schedule of await getSchedules()) {
+    await runIfDue(schedule.id, start);
+  }
+}
@@ -0,0 +1,82 @@
+import type { BoundingBox } from '../types';
+import { generateId, saveScreenshot } from '../utils/storage';
+
+// Chrome allows two captureVisibleTab calls per second
+const MIN_CAPTURE_INTERVAL_MS = 550;
+
+const SCREENSHOT_QUALITY = 70;
+const BOX_COLOR = '#FF3B30';
+
+let lastCaptureAt = 0;
+
+// Encode a blob as a data URL (FileReader is not available in every worker)
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type};base64,${btoa(binary)}`;
+}
+
+// Draw an outline around a viewport box on a captured image
+async function drawBoundingBox(
+  dataUrl: string,
+  box: BoundingBox,
+  viewportWidth?: number
+): Promise<string> {
+  const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  // The capture is in device pixels, the box in CSS pixels
+  const scale = viewportWidth ? bitmap.width / viewportWidth : 1;
+
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return dataUrl;
+
+  ctx.drawImage(bitmap, 0, 0);
+  ctx.strokeStyle = BOX_COLOR;
+  ctx.lineWidth = Math.max(2, Math.round(3 * scale));
+  ctx.strokeRect(box.x * scale, box.y * scale, box.width * scale, box.height * scale);
+  bitmap.close();
+
+  const blob = await canvas.convertToBlob({
+    type: 'image/jpeg',
+    quality: SCREENSHOT_QUALITY / 100,
+  });
+  return blobToDataUrl(blob);
+}
+
+// Capture the visible part of a tab and store it, returning the screenshot ID
+export async function captureScreenshot(
+  tab: chrome.tabs.Tab,
+  box?: BoundingBox
+): Promise<string | undefined> {
+  try {
+    const wait = lastCaptureAt + MIN_CAPTURE_INTERVAL_MS - Date.now();
+    if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+
+    // Only the active tab of a window can be captured. The given tab may be out of date (the
+    // user can switch tabs while a step runs), so look it up right before capturing.
+    const current = tab.id !== undefined ? await chrome.tabs.get(tab.id) : tab;
+    if (!current.active) {
+      console.warn('Flow Recorder: Skipping screenshot, playback tab is in the background');
+      return undefined;
+    }
+    lastCaptureAt = Date.now();
+
+    let dataUrl = await chrome.tabs.captureVisibleTab(current.windowId, {
+      format: 'jpeg',
+      quality: SCREENSHOT_QUALITY,
+    });
+    if (box) {
+      dataUrl = await drawBoundingBox(dataUrl, box, current.width);
+    }
+
+    const screenshotId = generateId();
+    await saveScreenshot(screenshotId, dataUrl);
+    return screenshotId;
+  } catch (error) {
+    console.warn('Flow Recorder: Could not capture screenshot:', error);
+    return undefined;
+  }
+}
@@ -1,5 +1,55 @@
-import type { Flow, Message, RecordedStep, RecordingState, PlaybackState } from '../types';
-import { getFlows, saveFlow, generateId } from '../utils/storage';
+import type {
+  BoundingBox,
+  DialogRecord,
+  ExtractedValue,
+  Flow,
+  FlowSchedule,
+  Message,
+  PlaybackFrame,
+  RecordedStep,
+  RecordingState,
+  PlaybackOptions,
+  PlaybackState,
+  PlaybackRun,
+  RunStatus,
+  SelectorCheck,
+  SelectorCheckRequest,
+  SessionCommandPayload,
+  StartPlaybackPayload,
+  StepBranch,
+  StepExecutionPayload,
+  StepPolicy,
+  StepResult,
+  StepRunResult,
+  TrustedInputCommand,
+} from '../types';
+import { getFlow, getFlows, getSettings, saveFlow, saveRun, generateId } from '../utils/storage';
+import {
+  applyVariables,
+  getExtractedVariables,
+  getRowVariables,
+  substituteVariables,
+} from '../utils/variables';
+import {
+  DEFAULT_CAPTCHA_TIMEOUT,
+  DEFAULT_QUIET_PERIOD,
+  DEFAULT_STEP_POLICY,
+  resolveStepPolicy,
+  resolveStepTyping,
+} from '../utils/policy';
+import {
+  DEFAULT_MAX_LOOP_ITERATIONS,
+  formatStepPath,
+  getBranchSteps,
+  getLoopVariable,
+} from '../utils/blocks';
+import { DEFAULT_DIALOG_RESPONSE } from '../utils/dialogs';
+import { DEFAULT_SELECTOR_HEALING, recordHeal } from '../utils/healing';
+import { mergeSelectorChecks } from '../utils/locator';
+import { captureScreenshot } from './screenshots';
+import { detachDebugger, dispatchTrustedInput } from './debugger';
+import { clearCaptchaNotification, notifyCaptcha } from './notifications';
+import { handleScheduleAlarm, removeSchedule, restoreSchedules, updateSchedule } from './scheduler';
 
 // Ensure content script is loaded in a tab
 async function ensureContentScriptLoaded(tabId: number): Promise<boolean> {
@@ -17,6 +67,13 @@ async function ensureContentScriptLoaded(tabId: number): Promise<boolean> {
   // Inject content script programmatically
   try {
     console.log('Flow Recorder: Injecting content script into tab', tabId);
+    // The dialog and network hooks go into the page's main world, where they can replace the
+    // dialog functions and see the page's requests
+    await chrome.scripting.executeScript({
+      target: { tabId, allFrames: true },
+      files: ['dialog-hook.js', 'network-hook.js'],
+      world: 'MAIN',
+    });
     await chrome.scripting.executeScript({
       target: { tabId, allFrames: true },
       files: ['content.js'],
@@ -90,19 +147,134 @@ let recordingState: RecordingState = {
   startUrl: null,
 };
 
-let playbackState: PlaybackState = {
-  isPlaying: false,
-  isPaused: false,
-  currentFlowId: null,
-  currentStepIndex: 0,
-  options: {
-    speed: 1,
-    stepByStep: false,
-    stopOnError: true,
-    highlightElements: true,
-  },
+// Options for playbacks started without their own (e.g. from the popup); the editor's last choice
+let defaultPlaybackOptions: PlaybackOptions = {
+  speed: 1,
+  stepByStep: false,
+  highlightElements: true,
+  policy: DEFAULT_STEP_POLICY,
+  screenshotMode: 'on-failure',
+  annotateScreenshots: true,
+  target: 'active-tab',
+  captchaTimeout: DEFAULT_CAPTCHA_TIMEOUT,
+  timing: 'recorded',
+  quietPeriod: DEFAULT_QUIET_PERIOD,
 };
 
+// Gap between steps with auto-wait, where the content script waits for the page instead
+const AUTO_WAIT_STEP_GAP_MS = 50;
+
+// One playback running in its own tab: the state reported to the UI plus the bookkeeping of its step loop
+interface PlaybackSession {
+  state: PlaybackState;
+  // Run record of the playback
+  run: PlaybackRun;
+  // First failure in the current dataset row when playback continues past errors
+  rowFailure: { stepPath: string; error: string } | null;
+  // Values captured by extract steps in the current dataset row, by variable name
+  extracted: Record<string, ExtractedValue>;
+  // Saved flows as of the last step, used to resolve the steps of called sub-flows
+  flows: Flow[];
+  // Debugger state: pending step timer, whether a step is executing, and where to pause next
+  nextStepTimer?: ReturnType<typeof setTimeout>;
+  stepInFlight: boolean;
+  pausedAtStepId: string | null;
+  pauseBeforeNext: boolean;
+  runToStepId: string | null;
+}
+
+// Running playback sessions by session ID
+const sessions = new Map<string, PlaybackSession>();
+
+// Sessions being started (their tab is opening), counted against the concurrency limit
+let startingSessions = 0;
+
+// Final states of recently finished sessions, so views can show how they ended
+const MAX_FINISHED_SESSIONS = 10;
+let finishedSessions: PlaybackState[] = [];
+
+// Session storage key of the state above, which would otherwise be lost when Chrome suspends the worker
+const WORKER_STATE_KEY = 'workerState';
+
+// The part of a session that is persisted; timers and loaded flows are rebuilt on restore
+type PersistedSession = Pick<
+  PlaybackSession,
+  | 'state'
+  | 'run'
+  | 'rowFailure'
+  | 'extracted'
+  | 'pausedAtStepId'
+  | 'pauseBeforeNext'
+  | 'runToStepId'
+>;
+
+interface PersistedWorkerState {
+  recording: RecordingState;
+  defaultPlaybackOptions: PlaybackOptions;
+  sessions: PersistedSession[];
+  finishedSessions: PlaybackState[];
+}
+
+// Save the recording and playback state to session storage, which outlives the worker
+// (but not the browser). Each call snapshots the current state, so the last write wins.
+async function persistState(): Promise<void> {
+  const data: PersistedWorkerState = {
+    recording: recordingState,
+    defaultPlaybackOptions,
+    sessions: [...sessions.values()].map((session) => ({
+      state: session.state,
+      run: session.run,
+      rowFailure: session.rowFailure,
+      extracted: session.extracted,
+      pausedAtStepId: session.pausedAtStepId,
+      pauseBeforeNext: session.pauseBeforeNext,
+      runToStepId: session.runToStepId,
+    })),
+    finishedSessions,
+  };
+  try {
+    await chrome.storage.session.set({ [WORKER_STATE_KEY]: data });
+  } catch (error) {
+    console.warn('Flow Recorder: Could not persist state:', error);
+  }
+}
+
+// Restore the state saved before the worker was suspended and continue interrupted playback
+// at the step it had reached (a step that was executing at the time runs again)
+async function restoreState(): Promise<void> {
+  const data = await chrome.storage.session.get(WORKER_STATE_KEY);
+  const saved = data[WORKER_STATE_KEY] as PersistedWorkerState | undefined;
+  if (!saved) return;
+
+  recordingState = saved.recording;
+  defaultPlaybackOptions = saved.defaultPlaybackOptions;
+  finishedSessions = saved.finishedSessions;
+  if (recordingState.isRecording) {
+    console.log(`Flow Recorder: Restored recording with ${recordingState.steps.length} steps`);
+  }
+
+  const flows = await getFlows();
+  for (const persisted of saved.sessions) {
+    sessions.set(persisted.state.sessionId, { ...persisted, flows, stepInFlight: false });
+  }
+
+  for (const session of [...sessions.values()]) {
+    const flow = flows.find((f) => f.id === session.state.currentFlowId);
+    const tab = await getPlaybackTab(session);
+    if (!flow || !tab) {
+      await stopPlayback(session, 'stopped', flow ? 'Playback tab was closed' : 'Flow was deleted');
+      continue;
+    }
+
+    console.log(
+      `Flow Recorder: Resuming playback of "${flow.name}" at step ${formatStepPath(session.state.frames)}`
+    );
+    // Paused sessions wait for the resume command as before
+    if (!session.state.isPaused) scheduleNextStep(session, flow, 1000);
+  }
+  await updateBadge();
+}
+
 // Get the active tab
 async function getActiveTab(): Promise<chrome.tabs.Tab | undefined> {
   const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
@@ -120,6 +292,7 @@ async function startRecording(): Promise<void> {
     steps: [],
     startUrl: tab.url,
   };
+  await persistState();
 
   // Notify content script to start capturing events (with retry)
   await sendMessageWithRetry(tab.id, { type: 'START_RECORDING' });
@@ -159,8 +332,9 @@ async function stopRecording(): Promise<Flow | null> {
     steps: [],
     startUrl: null,
   };
+  await persistState();
 
-  await chrome.action.setBadgeText({ text: '' });
+  await updateBadge();
 
   return flow;
 }
@@ -169,72 +343,599 @@ async function stopRecording(): Promise<Flow | null> {
 function addRecordedStep(step: RecordedStep): void {
   if (!recordingState.isRecording) return;
   recordingState.steps.push(step);
+  persistState();
+}
+
+// Show recording or the number of running playback sessions on the toolbar icon
+async function updateBadge(): Promise<void> {
+  if (recordingState.isRecording) return;
+
+  const count = sessions.size;
+  await chrome.action.setBadgeText({ text: count === 0 ? '' : count === 1 ? 'PLAY' : `▶${count}` });
+  await chrome.action.setBadgeBackgroundColor({ color: '#00FF00' });
 }
 
-// Start playback of a flow
-async function startPlayback(flowId: string): Promise<void> {
+// Open or pick the tab a new playback runs in, according to the playback target option
+async function openPlaybackTab(options: PlaybackOptions): Promise<chrome.tabs.Tab | undefined> {
+  switch (options.target) {
+    case 'background-tab':
+      return chrome.tabs.create({ url: 'about:blank', active: false });
+    case 'new-window': {
+      const created = await chrome.windows.create({ url: 'about:blank', focused: false });
+      return created?.tabs?.[0];
+    }
+    default:
+      return getActiveTab();
+  }
+}
+
+// Get the tab a session is bound to, or undefined when it no longer exists
+async function getPlaybackTab(session: PlaybackSession): Promise<chrome.tabs.Tab | undefined> {
+  if (session.state.tabId === null) return undefined;
+  try {
+    return await chrome.tabs.get(session.state.tabId);
+  } catch {
+    return undefined;
+  }
+}
+
+// Whether a session is still running in the given tab (it may have been stopped while a page loaded)
+function isSessionActive(session: PlaybackSession, tabId?: number): boolean {
+  return sessions.get(session.state.sessionId) === session && session.state.tabId === tabId;
+}
+
+// Start a playback session for a flow, returning its session ID
+async function startPlayback(
+  flowId: string,
+  overrides: Partial<PlaybackOptions> = {},
+  scheduleId?: string
+): Promise<string> {
   const flows = await getFlows();
   const flow = flows.find((f) => f.id === flowId);
-  if (!flow) return;
+  if (!flow) throw new Error('Flow not found');
 
-  playbackState = {
-    isPlaying: true,
-    isPaused: false,
-    currentFlowId: flowId,
-    currentStepIndex: 0,
-    options: playbackState.options,
+  const { maxConcurrentSessions } = await getSettings();
+  const running = sessions.size + startingSessions;
+  if (running >= maxConcurrentSessions) {
+    throw new Error(`Already running ${running} flows (limit ${maxConcurrentSessions})`);
+  }
+
+  // Hold a slot while the tab opens, so concurrent starts cannot exceed the limit
+  startingSessions++;
+  let tab: chrome.tabs.Tab | undefined;
+  const options = { ...defaultPlaybackOptions, ...overrides };
+  try {
+    if (options.target === 'active-tab') {
+      const activeTab = await getActiveTab();
+      if ([...sessions.values()].some((s) => s.state.tabId === activeTab?.id)) {
+        throw new Error('Another flow is already playing in this tab');
+      }
+    }
+
+    tab = await openPlaybackTab(options);
+    if (!tab?.id) throw new Error('No tab to play back in');
+  } catch (error) {
+    startingSessions--;
+    throw error;
+  }
+
+  const sessionId = generateId();
+  const session: PlaybackSession = {
+    state: {
+      sessionId,
+      isPlaying: true,
+      isPaused: false,
+      currentFlowId: flowId,
+      flowName: flow.name,
+      currentStepId: null,
+      frames: [ROOT_FRAME()],
+      currentRowIndex: 0,
+      rowCount: flow.dataset?.rows.length || 1,
+      rowResults: [],
+      runId: sessionId,
+      tabId: tab.id,
+      options,
+    },
+    run: {
+      id: sessionId,
+      flowId: flow.id,
+      flowName: flow.name,
+      startedAt: Date.now(),
+      status: 'running',
+      scheduleId,
+      steps: [],
+      rowResults: [],
+    },
+    rowFailure: null,
+    extracted: {},
+    flows,
+    stepInFlight: false,
+    pausedAtStepId: null,
+    pauseBeforeNext: false,
+    runToStepId: null,
   };
+  sessions.set(sessionId, session);
+  startingSessions--;
+  await persistState();
+  await saveRun(session.run);
+  await updateBadge();
 
-  // Navigate to start URL
-  const tab = await getActiveTab();
-  if (tab?.id) {
-    await chrome.tabs.update(tab.id, { url: flow.startUrl });
+  await startRow(session, flow);
+  return sessionId;
+}
 
-    // Wait for page to load, then start executing steps
-    chrome.tabs.onUpdated.addListener(function listener(tabId, info) {
-      if (tabId === tab.id && info.status === 'complete') {
-        chrome.tabs.onUpdated.removeListener(listener);
+// Navigate to the start URL of the current dataset row and begin executing its steps
+async function startRow(session: PlaybackSession, flow: Flow): Promise<void> {
+  const state = session.state;
+  const tab = await getPlaybackTab(session);
+  if (!tab?.id) {
+    await stopPlayback(session, 'stopped', 'Playback tab was closed');
+    return;
+  }
 
-        // Wait for content script to be ready, then execute
-        waitForPageReady(tab.id!).then((ready) => {
-          if (ready) {
-            console.log('Flow Recorder: Page ready, starting playback');
-            // Additional delay to ensure DOM is fully loaded
-            setTimeout(() => executeNextStep(flow), 1000);
-          } else {
-            console.error('Flow Recorder: Page not ready, cannot start playback');
-            stopPlayback();
-          }
-        });
-      }
+  if (state.rowCount > 1) {
+    console.log(`Flow Recorder: Starting data row ${state.currentRowIndex + 1}/${state.rowCount}`);
+  }
+
+  const variables = getRowVariables(flow, state.currentRowIndex);
+  await chrome.tabs.update(tab.id, { url: substituteVariables(flow.startUrl, variables) });
+
+  // Wait for page to load, then start executing steps
+  chrome.tabs.onUpdated.addListener(function listener(tabId, info) {
+    if (tabId === tab.id && info.status === 'complete') {
+      chrome.tabs.onUpdated.removeListener(listener);
+
+      // Wait for content script to be ready, then execute
+      waitForPageReady(tab.id!).then((ready) => {
+        if (!isSessionActive(session, tab.id)) return;
+        if (ready) {
+          console.log('Flow Recorder: Page ready, starting playback');
+          // Additional delay to ensure DOM is fully loaded
+          scheduleNextStep(session, flow, 1000);
+        } else {
+          console.error('Flow Recorder: Page not ready, cannot start playback');
+          stopPlayback(session, 'failed');
+        }
+      });
+    }
+  });
+}
+
+// Record the outcome of the current row, then move on to the next row or finish
+async function finishRow(
+  session: PlaybackSession,
+  flow: Flow,
+  failure: { stepPath: string; error: string } | null
+): Promise<void> {
+  const state = session.state;
+  state.rowResults.push({
+    rowIndex: state.currentRowIndex,
+    status: failure ? 'failed' : 'passed',
+    failedStepPath: failure?.stepPath,
+    error: failure?.error,
+    extracted: Object.keys(session.extracted).length > 0 ? session.extracted : undefined,
+  });
+  session.rowFailure = null;
+  session.extracted = {};
+
+  if (state.currentRowIndex + 1 < state.rowCount) {
+    state.currentRowIndex++;
+    state.frames = [ROOT_FRAME()];
+    await startRow(session, flow);
+    return;
+  }
+
+  await stopPlayback(session, state.rowResults.some((r) => r.status === 'failed') ? 'failed' : 'passed');
+}
+
+// Capture a screenshot of the tab after a step when the screenshot mode asks for one
+async function captureStepScreenshot(
+  session: PlaybackSession,
+  tab: chrome.tabs.Tab,
+  step: RecordedStep,
+  failed: boolean,
+  targetRect?: BoundingBox
+): Promise<string | undefined> {
+  const { screenshotMode, annotateScreenshots } = session.state.options;
+  if (screenshotMode === 'off' || (screenshotMode === 'on-failure' && !failed)) return undefined;
+
+  // Fall back to the box recorded with the step when the element was not found
+  const box = annotateScreenshots ? targetRect || step.target.boundingBox : undefined;
+  return captureScreenshot(tab, box);
+}
+
+// Append a step result to the session's run record
+async function recordStepResult(
+  session: PlaybackSession,
+  step: RecordedStep,
+  startedAt: number,
+  tab: chrome.tabs.Tab,
+  result: Pick<
+    StepRunResult,
+    | 'status'
+    | 'error'
+    | 'matchedStrategy'
+    | 'attempts'
+    | 'conditionMet'
+    | 'iteration'
+    | 'extracted'
+    | 'dialogs'
+    | 'captcha'
+  > & {
+    retries?: number;
+    targetRect?: BoundingBox;
+  }
+): Promise<void> {
+  const duration = Date.now() - startedAt;
+  const { targetRect, ...stepResult } = result;
+
+  // A pause the content script could not report on ended with the page being left, which
+  // counts as solved
+  const pause = session.state.captchaPause;
+  if (pause) {
+    stepResult.captcha ??= { type: pause.type, waited: Date.now() - pause.startedAt, outcome: 'solved' };
+    delete session.state.captchaPause;
+    clearCaptchaNotification(tab.id!);
+  }
+
+  const screenshotId = await captureStepScreenshot(session, tab, step, result.status !== 'passed', targetRect);
+
+  session.run.steps.push({
+    stepId: step.id,
+    stepIndex: currentFrame(session).index,
+    path: formatStepPath(session.state.frames),
+    flowId: currentSubFlowId(session),
+    rowIndex: session.state.currentRowIndex,
+    startedAt,
+    duration,
+    ...stepResult,
+    retries: result.retries ?? 0,
+    screenshotId,
+  });
+  await saveRun(session.run);
+}
+
+// Log the fresh selector of a step whose element only a fallback lookup found, and apply it to
+// the stored step when the step's flow heals automatically
+async function healStepTarget(
+  session: PlaybackSession,
+  stepFlow: Flow,
+  step: RecordedStep,
+  result: StepResult
+): Promise<void> {
+  if (!result.healedTarget) return;
+  try {
+    const heal = await recordHeal(stepFlow.selectorHealing ?? DEFAULT_SELECTOR_HEALING, {
+      flowId: stepFlow.id,
+      stepId: step.id,
+      runId: session.run.id,
+      matchedStrategy: result.matchedStrategy,
+      previousTarget: step.target,
+      healedTarget: result.healedTarget,
     });
+    if (heal) {
+      console.log(`Flow Recorder: Step target found via ${heal.matchedStrategy}, heal ${heal.status}`);
+    }
+  } catch (error) {
+    console.warn('Flow Recorder: Could not heal step target:', error);
   }
+}
 
-  await chrome.action.setBadgeText({ text: 'PLAY' });
-  await chrome.action.setBadgeBackgroundColor({ color: '#00FF00' });
+// Pause before the next step: the recorded delay at playback speed (at least `minimumMs`), or
+// only a short gap with auto-wait
+function getStepGap(session: PlaybackSession, nextStep: RecordedStep | null, minimumMs: number): number {
+  const { timing, speed } = session.state.options;
+  if (timing === 'auto-wait') return AUTO_WAIT_STEP_GAP_MS;
+  return Math.max((nextStep?.delay || 500) / speed, minimumMs);
+}
+
+// Clear pending debugger pauses and the scheduled step
+function resetDebuggerState(session: PlaybackSession): void {
+  clearTimeout(session.nextStepTimer);
+  session.stepInFlight = false;
+  session.pausedAtStepId = null;
+  session.pauseBeforeNext = false;
+  session.runToStepId = null;
+}
+
+// Schedule the next step, reloading the flows so edits made while paused (including to
+// called sub-flows) take effect
+function scheduleNextStep(session: PlaybackSession, flow: Flow, delayMs: number): void {
+  clearTimeout(session.nextStepTimer);
+  session.stepInFlight = false;
+  // Every step ends here, so the persisted position follows playback step by step
+  persistState();
+  session.nextStepTimer = setTimeout(async () => {
+    session.flows = await getFlows();
+    const latest = session.flows.find((f) => f.id === flow.id);
+    executeNextStep(session, latest || flow);
+  }, delayMs);
+}
+
+// Whether the debugger should pause before executing the given step
+function shouldPauseBefore(session: PlaybackSession, step: RecordedStep): boolean {
+  // The step the debugger paused at runs when playback resumes
+  if (step.id === session.pausedAtStepId) {
+    session.pausedAtStepId = null;
+    return false;
+  }
+  if (session.pauseBeforeNext || session.state.options.stepByStep || step.breakpoint) {
+    return true;
+  }
+  return step.id === session.runToStepId;
+}
+
+// Session a playback command is addressed to
+function getCommandSession(payload: unknown): PlaybackSession | undefined {
+  return sessions.get((payload as SessionCommandPayload | undefined)?.sessionId ?? '');
+}
+
+// Pause a session before its next step
+function pausePlayback(session: PlaybackSession | undefined): void {
+  if (!session) return;
+  session.state.isPaused = true;
+  persistState();
+}
+
+// Resume a paused session until the next breakpoint, for a single step, or up to a given step
+async function resumePlayback(
+  session: PlaybackSession | undefined,
+  mode: 'continue' | 'step' | 'run-to',
+  stepId?: string
+): Promise<void> {
+  if (!session) return;
+  const state = session.state;
+  if (!state.currentFlowId) return;
+
+  session.pauseBeforeNext = mode === 'step';
+  session.runToStepId = mode === 'run-to' && stepId ? stepId : null;
+  if (mode !== 'step') {
+    state.options = { ...state.options, stepByStep: false };
+  }
+  state.isPaused = false;
+
+  // A step still executing schedules the next one itself when it finishes
+  if (session.stepInFlight) return;
+  const flow = await getFlow(state.currentFlowId);
+  if (flow) scheduleNextStep(session, flow, 0);
+}
+
+// Frame of the top-level step list
+const ROOT_FRAME = (): PlaybackFrame => ({ blockId: null, branch: null, index: 0 });
+
+// Innermost frame, i.e. the branch currently being executed
+function currentFrame(session: PlaybackSession): PlaybackFrame {
+  const frames = session.state.frames;
+  return frames[frames.length - 1];
+}
+
+// Steps of the branch executed at a frame depth, resolved by block ID so edits made while paused apply
+function getFrameSteps(session: PlaybackSession, flow: Flow, depth: number): RecordedStep[] {
+  let steps = flow.steps;
+  for (let i = 1; i <= depth; i++) {
+    const frame = session.state.frames[i];
+    if (frame.flowId) {
+      steps = session.flows.find((f) => f.id === frame.flowId)?.steps ?? [];
+      continue;
+    }
+    const block = steps.find((s) => s.id === frame.blockId);
+    steps = block && frame.branch ? getBranchSteps(block, frame.branch) : [];
+  }
+  return steps;
+}
+
+// Leave finished branches and return the step to execute next, or null when the flow is done
+function getCurrentStep(session: PlaybackSession, flow: Flow): RecordedStep | null {
+  const frames = session.state.frames;
+  while (frames.length > 0) {
+    const step = getFrameSteps(session, flow, frames.length - 1)[currentFrame(session).index];
+    if (step) return step;
+    if (frames.length === 1) return null;
+    const finished = frames.pop()!;
+    if (finished.branch === 'body') {
+      // Back to the loop step, which decides whether to run another iteration
+      currentFrame(session).loopIteration = (finished.iteration ?? 0) + 1;
+    } else {
+      advanceFrame(session);
+    }
+  }
+  return null;
+}
+
+// Move the innermost frame on to its next step
+function advanceFrame(session: PlaybackSession): void {
+  const frame = currentFrame(session);
+  frame.index++;
+  delete frame.loopIteration;
 }
 
-// Execute the next step in playback
-async function executeNextStep(flow: Flow): Promise<void> {
-  if (!playbackState.isPlaying || playbackState.isPaused) return;
+// Start executing a branch of a block step
+function enterBranch(
+  session: PlaybackSession,
+  blockId: string,
+  branch: StepBranch,
+  loop?: { iteration: number; variables: Record<string, string> }
+): void {
+  console.log(
+    `Flow Recorder: Entering ${branch} branch${loop ? ` (iteration ${loop.iteration + 1})` : ''}`
+  );
+  session.state.frames.push({ blockId, branch, index: 0, ...loop });
+}
+
+// Variables provided by the loops and sub-flow calls enclosing the current step
+function getFrameVariables(session: PlaybackSession): Record<string, string> {
+  return Object.assign({}, ...session.state.frames.map((frame) => frame.variables || {}));
+}
+
+// ID of the innermost sub-flow being executed, or undefined for the played flow itself
+function currentSubFlowId(session: PlaybackSession): string | undefined {
+  return [...session.state.frames].reverse().find((frame) => frame.flowId)?.flowId;
+}
+
+// Check that a run-flow step can be entered: the called flow exists and is not already running
+function checkSubFlowCall(session: PlaybackSession, flow: Flow, step: RecordedStep): StepResult {
+  const calledId = step.subFlow?.flowId;
+  const called = session.flows.find((f) => f.id === calledId);
+  if (!calledId || !called) {
+    return { success: false, error: 'Called flow not found' };
+  }
+
+  const callStack = [flow.id, ...session.state.frames.flatMap((frame) => (frame.flowId ? [frame.flowId] : []))];
+  if (callStack.includes(calledId)) {
+    const names = [...callStack.slice(callStack.indexOf(calledId)), calledId].map(
+      (id) => session.flows.find((f) => f.id === id)?.name ?? id
+    );
+    return { success: false, error: `Sub-flow cycle: ${names.join(' → ')}` };
+  }
+  return { success: true };
+}
+
+// Start executing the steps of a called flow with its variable defaults and the step's bindings
+function enterSubFlow(session: PlaybackSession, step: RecordedStep): void {
+  const called = session.flows.find((f) => f.id === step.subFlow?.flowId)!;
+  console.log(`Flow Recorder: Entering sub-flow "${called.name}"`);
+  session.state.frames.push({
+    blockId: step.id,
+    branch: null,
+    index: 0,
+    flowId: called.id,
+    variables: { ...(called.variables || {}), ...(step.subFlow?.bindings || {}) },
+  });
+}
+
+// Decide whether a loop step runs another iteration; while and for-each loops check the page
+async function evaluateLoop(
+  session: PlaybackSession,
+  tabId: number,
+  step: RecordedStep,
+  policy: StepPolicy,
+  iteration: number
+): Promise<{ result: StepResult; attempts: number }> {
+  const loop = step.loop;
+  let outcome: { result: StepResult; attempts: number };
+  if (loop?.kind === 'repeat') {
+    outcome = { result: { success: true, conditionMet: iteration < (loop.count ?? 0) }, attempts: 1 };
+  } else {
+    outcome = await executeStepWithRetries(session, tabId, { ...step, iteration }, policy);
+  }
+
+  const maxIterations = loop?.maxIterations ?? DEFAULT_MAX_LOOP_ITERATIONS;
+  if (outcome.result.conditionMet && iteration >= maxIterations) {
+    return {
+      result: { success: false, error: `Loop stopped after ${maxIterations} iterations` },
+      attempts: outcome.attempts,
+    };
+  }
+  return outcome;
+}
+
+// Answers for the dialogs a step may open: those of the dialog steps right after it, in order,
+// and the answer of the flow it belongs to for any other
+function getDialogArming(
+  session: PlaybackSession,
+  flow: Flow,
+  stepFlow: Flow,
+  variables: Record<string, string>
+): StepExecutionPayload['dialogs'] {
+  const steps = getFrameSteps(session, flow, session.state.frames.length - 1);
+  const expected: Pick<DialogRecord, 'kind' | 'response'>[] = [];
+  for (const next of steps.slice(currentFrame(session).index + 1)) {
+    if (next.type !== 'dialog' || !next.dialog) break;
+    const { kind, response } = applyVariables(next, variables).dialog!;
+    expected.push({ kind, response });
+  }
+  return { expected, fallback: stepFlow.dialogResponse ?? DEFAULT_DIALOG_RESPONSE };
+}
+
+// Send a step to the content script, attempting it again as its policy allows
+async function executeStepWithRetries(
+  session: PlaybackSession,
+  tabId: number,
+  step: StepExecutionPayload,
+  policy: StepPolicy
+): Promise<{ result: StepResult; attempts: number }> {
+  let result: StepResult = { success: false, error: 'Step was not executed' };
+  const maxAttempts = policy.retries + 1;
+  const { timing, quietPeriod } = session.state.options;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = (await sendMessageWithRetry(tabId, {
+        type: 'EXECUTE_STEP',
+        payload: {
+          ...step,
+          policy,
+          captchaTimeout: session.state.options.captchaTimeout,
+          autoWait: timing === 'auto-wait' ? { quietPeriod } : undefined,
+        },
+      }, 1)) as Message | undefined;
+
+      console.log('Flow Recorder: Step response:', response);
+      result = {
+        ...(response?.payload as Partial<StepResult>),
+        success: response?.type !== 'STEP_FAILED',
+      };
+    } catch (error) {
+      console.warn('Flow Recorder: Failed to execute step:', error);
+      result = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // A CAPTCHA left unsolved is not waited for again
+    const captchaEnded = result.captcha?.outcome === 'stopped' || result.captcha?.outcome === 'timeout';
+    if (result.success || !session.state.isPlaying || captchaEnded) return { result, attempts: attempt };
+
+    if (attempt < maxAttempts) {
+      console.warn(`Flow Recorder: Step failed (attempt ${attempt}/${maxAttempts}), retrying in ${policy.retryInterval}ms`);
+      await new Promise(resolve => setTimeout(resolve, policy.retryInterval));
+    }
+  }
 
-  const step = flow.steps[playbackState.currentStepIndex];
-  if (!step) {
-    // Playback complete
+  return { result, attempts: maxAttempts };
+}
+
+// Execute the next step of a session
+async function executeNextStep(session: PlaybackSession, flow: Flow): Promise<void> {
+  const state = session.state;
+  if (!state.isPlaying || state.isPaused) return;
+
+  const recordedStep = getCurrentStep(session, flow);
+  state.currentStepId = recordedStep?.id ?? null;
+  if (!recordedStep) {
+    // Row complete
     console.log('Flow Recorder: Playback complete');
-    await stopPlayback();
+    await finishRow(session, flow, session.rowFailure);
     return;
   }
 
-  console.log(`Flow Recorder: Executing step ${playbackState.currentStepIndex + 1}/${flow.steps.length}:`, step.type);
+  if (shouldPauseBefore(session, recordedStep)) {
+    console.log(`Flow Recorder: Paused before step ${formatStepPath(state.frames)}`);
+    state.isPaused = true;
+    session.pausedAtStepId = recordedStep.id;
+    session.pauseBeforeNext = false;
+    session.runToStepId = null;
+    await persistState();
+    return;
+  }
+  session.stepInFlight = true;
 
-  const tab = await getActiveTab();
+  const variables = {
+    ...getRowVariables(flow, state.currentRowIndex),
+    ...getExtractedVariables(session.extracted),
+    ...getFrameVariables(session),
+  };
+  const step = applyVariables(recordedStep, variables);
+
+  console.log(`Flow Recorder: Executing step ${formatStepPath(state.frames)}:`, step.type);
+
+  const tab = await getPlaybackTab(session);
   if (!tab?.id) {
-    console.error('Flow Recorder: No active tab');
-    await stopPlayback();
+    console.error('Flow Recorder: Playback tab is gone');
+    await stopPlayback(session, 'stopped', 'Playback tab was closed');
     return;
   }
 
+  const stepStartedAt = Date.now();
+
   // Handle navigation steps
   if (step.type === 'navigation' && step.url) {
     console.log('Flow Recorder: Navigating to', step.url);
@@ -245,14 +946,16 @@ async function executeNextStep(flow: Flow): Promise<void> {
         chrome.tabs.onUpdated.removeListener(listener);
 
         // Wait for content script to be ready after navigation
-        waitForPageReady(tab.id!).then((ready) => {
+        waitForPageReady(tab.id!).then(async (ready) => {
+          if (!isSessionActive(session, tab.id)) return;
           if (ready) {
-            playbackState.currentStepIndex++;
-            const delay = (flow.steps[playbackState.currentStepIndex]?.delay || 500) / playbackState.options.speed;
-            setTimeout(() => executeNextStep(flow), Math.max(delay, 1000));
+            await recordStepResult(session, step, stepStartedAt, tab, { status: 'passed' });
+            advanceFrame(session);
+            scheduleNextStep(session, flow, getStepGap(session, getCurrentStep(session, flow), 1000));
           } else {
             console.error('Flow Recorder: Page not ready after navigation');
-            stopPlayback();
+            await recordStepResult(session, step, stepStartedAt, tab, { status: 'failed', error: 'Page not ready after navigation' });
+            stopPlayback(session, 'failed');
           }
         });
       }
@@ -260,55 +963,220 @@ async function executeNextStep(flow: Flow): Promise<void> {
     return;
   }
 
-  // Send step to content script for execution (with retry)
-  try {
-    const response = await sendMessageWithRetry(tab.id, {
-      type: 'EXECUTE_STEP',
-      payload: step,
-    }, 3, 1000);
-
-    console.log('Flow Recorder: Step response:', response);
-
-    // Check if step execution was successful
-    if (response && (response as { success: boolean }).success === false) {
-      console.error('Flow Recorder: Step execution failed');
-      if (playbackState.options.stopOnError) {
-        await stopPlayback();
-        return;
-      }
-    }
+  // Send step to content script for execution, applying its timeout and retry policy, and
+  // the typing setting and dialog answers of the flow the step belongs to
+  const policy = resolveStepPolicy(step, state.options.policy);
+  const stepFlow = session.flows.find((f) => f.id === currentSubFlowId(session)) ?? flow;
+  const typing = resolveStepTyping(step, stepFlow);
+  const dialogs = getDialogArming(session, flow, stepFlow, variables);
+  const iteration = step.type === 'loop' ? (currentFrame(session).loopIteration ?? 0) : undefined;
+  const { result, attempts } =
+    step.type === 'run-flow'
+      ? { result: checkSubFlowCall(session, flow, step), attempts: 1 }
+      : iteration !== undefined
+        ? await evaluateLoop(session, tab.id, step, policy, iteration)
+        : await executeStepWithRetries(
+            session,
+            tab.id,
+            { ...step, typing, inputBackend: stepFlow.inputBackend, dialogs },
+            policy
+          );
+  if (!state.isPlaying) return;
+  const skipped = !result.success && policy.onFailure === 'skip';
 
-    playbackState.currentStepIndex++;
-    const nextStep = flow.steps[playbackState.currentStepIndex];
-    const delay = (nextStep?.delay || 500) / playbackState.options.speed;
-    setTimeout(() => executeNextStep(flow), Math.max(delay, 300));
-  } catch (error) {
-    console.error('Flow Recorder: Failed to execute step:', error);
-    if (playbackState.options.stopOnError) {
-      await stopPlayback();
-    } else {
-      playbackState.currentStepIndex++;
-      setTimeout(() => executeNextStep(flow), 500);
+  await recordStepResult(session, step, stepStartedAt, tab, {
+    status: result.success ? 'passed' : skipped ? 'skipped' : 'failed',
+    error: result.error,
+    conditionMet: result.conditionMet,
+    iteration,
+    extracted: result.extracted,
+    dialogs: result.dialogs,
+    captcha: result.captcha,
+    matchedStrategy: result.matchedStrategy,
+    retries: result.retries,
+    attempts,
+    targetRect: result.targetRect,
+  });
+  // The recorded step, not the one with variables filled in
+  if (result.success) await healStepTarget(session, stepFlow, recordedStep, result);
+
+  if (result.captcha?.outcome === 'stopped') {
+    await stopPlayback(session, 'stopped', 'Stopped at CAPTCHA');
+    return;
+  }
+
+  if (skipped) {
+    console.warn('Flow Recorder: Step failed and was skipped:', result.error);
+  } else if (!result.success) {
+    console.error('Flow Recorder: Step execution failed:', result.error);
+    const failure = session.rowFailure || {
+      stepPath: formatStepPath(state.frames),
+      error: result.error || 'Step execution failed',
+    };
+    if (policy.onFailure === 'fail') {
+      await finishRow(session, flow, failure);
+      return;
     }
+    session.rowFailure = failure;
+  }
+
+  // Later steps of the row see the value as {{variable}}
+  if (step.type === 'extract' && step.extract && result.success && result.extracted !== undefined) {
+    session.extracted[step.extract.variable] = result.extracted;
+  }
+
+  if (step.type === 'condition' && result.success) {
+    enterBranch(session, step.id, result.conditionMet ? 'then' : 'else');
+  } else if (step.type === 'run-flow' && result.success) {
+    enterSubFlow(session, step);
+  } else if (step.type === 'loop' && iteration !== undefined && result.success && result.conditionMet) {
+    const name = getLoopVariable(step);
+    enterBranch(session, step.id, 'body', {
+      iteration,
+      variables: {
+        [`${name}.index`]: String(iteration + 1),
+        ...(step.loop?.kind === 'for-each' ? { [`${name}.text`]: result.itemText ?? '' } : {}),
+      },
+    });
+  } else {
+    advanceFrame(session);
   }
+  scheduleNextStep(session, flow, getStepGap(session, getCurrentStep(session, flow), 300));
 }
 
-// Stop playback
-async function stopPlayback(): Promise<void> {
-  playbackState = {
-    ...playbackState,
+// Stop a session, closing its run record with the given status
+async function stopPlayback(session: PlaybackSession, status: RunStatus = 'stopped', reason?: string): Promise<void> {
+  if (!sessions.has(session.state.sessionId)) return;
+  resetDebuggerState(session);
+  sessions.delete(session.state.sessionId);
+
+  session.run.endedAt = Date.now();
+  session.run.status = status;
+  session.run.stopReason = reason;
+  session.run.rowResults = session.state.rowResults;
+  await saveRun(session.run);
+  if (session.state.tabId !== null) {
+    await detachDebugger(session.state.tabId);
+    clearCaptchaNotification(session.state.tabId);
+    // The tab's dialogs are answered by the user again
+    await chrome.tabs.sendMessage(session.state.tabId, { type: 'PLAYBACK_ENDED' }).catch(() => {});
+  }
+
+  // Updated in place: steps still in flight check the same state object
+  Object.assign(session.state, {
     isPlaying: false,
     isPaused: false,
-    currentFlowId: null,
-    currentStepIndex: 0,
-  };
+    currentStepId: null,
+    frames: [],
+    captchaPause: undefined,
+  });
+  finishedSessions = [session.state, ...finishedSessions].slice(0, MAX_FINISHED_SESSIONS);
+  await persistState();
+
+  await updateBadge();
+}
 
-  await chrome.action.setBadgeText({ text: '' });
+// Stop every running session
+async function stopAllPlayback(): Promise<void> {
+  await Promise.all([...sessions.values()].map((session) => stopPlayback(session)));
 }
 
+// Dispatch trusted input for a content script, only into tabs a playback session is bound to
+async function dispatchSessionInput(
+  tabId: number | undefined,
+  command: TrustedInputCommand
+): Promise<{ success: boolean; error?: string }> {
+  if (tabId === undefined || ![...sessions.values()].some((s) => s.state.tabId === tabId)) {
+    return { success: false, error: 'Trusted input is only available to playback tabs' };
+  }
+
+  try {
+    await dispatchTrustedInput(tabId, command);
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Flow Recorder: Trusted input failed:', message);
+    return { success: false, error: `Trusted input failed: ${message}` };
+  }
+}
+
+// Note that a session waits for the user to solve a CAPTCHA in its tab, and notify them
+async function startCaptchaPause(tabId: number | undefined, type: string): Promise<void> {
+  const session = [...sessions.values()].find((s) => s.state.tabId === tabId);
+  if (!session || tabId === undefined) return;
+
+  console.log(`Flow Recorder: "${session.state.flowName}" waits for a ${type} to be solved`);
+  session.state.captchaPause = { type, startedAt: Date.now() };
+  await persistState();
+  await notifyCaptcha(tabId, session.state.flowName, type);
+}
+
+// Play a due schedule's flow, away from the tab the user is working in unless it says otherwise
+function startScheduledPlayback(schedule: FlowSchedule): Promise<string> {
+  return startPlayback(schedule.flowId, { target: schedule.target, stepByStep: false }, schedule.id);
+}
+
+// Start the element picker in a tab, bringing the tab to the front
+async function startPicker(tabId: number): Promise<void> {
+  const tab = await chrome.tabs.update(tabId, { active: true });
+  if (tab?.windowId !== undefined) {
+    await chrome.windows.update(tab.windowId, { focused: true });
+  }
+  await sendMessageWithRetry(tabId, { type: 'START_PICKER' });
+}
+
+// Look up step targets in every frame of a tab without acting on them (dry-run validation),
+// keeping for each step the frame where it was found
+async function validateSelectors(
+  tabId: number,
+  targets: SelectorCheckRequest[]
+): Promise<{ success: boolean; checks?: SelectorCheck[]; error?: string }> {
+  if (!(await ensureContentScriptLoaded(tabId))) {
+    return { success: false, error: 'Could not load the content script into the tab' };
+  }
+  try {
+    const frames = (await chrome.webNavigation.getAllFrames({ tabId })) ?? [{ frameId: 0 }];
+    const responses = await Promise.all(
+      frames.map(({ frameId }) =>
+        chrome.tabs
+          .sendMessage(tabId, { type: 'VALIDATE_SELECTORS', payload: targets }, { frameId })
+          // Frames the content script cannot run in (e.g. about:blank) do not answer
+          .catch(() => null)
+      )
+    );
+    const frameChecks = responses
+      .filter((response): response is { success: boolean; checks: SelectorCheck[] } =>
+        Boolean(response?.success && response.checks)
+      )
+      .map((response) => response.checks);
+    if (frameChecks.length === 0) {
+      return { success: false, error: 'No frame of the tab answered' };
+    }
+    return { success: true, checks: mergeSelectorChecks(frameChecks) };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+// Stop the element picker in every frame of a tab
+async function stopPicker(tabId: number): Promise<void> {
+  try {
+    await chrome.tabs.sendMessage(tabId, { type: 'STOP_PICKER' });
+  } catch (error) {
+    console.warn('Flow Recorder: Could not stop picker:', error);
+  }
+}
+
+// Rehydrate state when the worker starts; event handlers wait for it so that, e.g., steps
+// recorded while the worker was suspended are added to the restored recording
+const stateRestored = restoreState().catch((error) => {
+  console.error('Flow Recorder: Could not restore state:', error);
+});
+
 // Message handler
 chrome.runtime.onMessage.addListener((message: Message, sender, sendResponse) => {
   const handleAsync = async () => {
+    await stateRestored;
     switch (message.type) {
       case 'START_RECORDING':
         await startRecording();
@@ -323,37 +1191,110 @@ chrome.runtime.onMessage.addListener((message: Message, sender, sendResponse) =>
         return { success: true };
 
       case 'START_PLAYBACK':
-        await startPlayback(message.payload as string);
-        return { success: true };
+        try {
+          const { flowId, options } = message.payload as StartPlaybackPayload;
+          const sessionId = await startPlayback(flowId, options);
+          if (options) {
+            defaultPlaybackOptions = { ...defaultPlaybackOptions, ...options, stepByStep: false };
+            // startPlayback persisted the state before the new defaults were set
+            await persistState();
+          }
+          return { success: true, sessionId };
+        } catch (error) {
+          return { success: false, error: error instanceof Error ? error.message : String(error) };
+        }
 
       case 'STOP_PLAYBACK':
-        await stopPlayback();
+        // Without a session ID every session is stopped
+        if (message.payload) {
+          const session = getCommandSession(message.payload);
+          if (session) await stopPlayback(session);
+        } else {
+          await stopAllPlayback();
+        }
         return { success: true };
 
       case 'PAUSE_PLAYBACK':
-        playbackState.isPaused = true;
+        pausePlayback(getCommandSession(message.payload));
         return { success: true };
 
       case 'RESUME_PLAYBACK':
-        playbackState.isPaused = false;
-        if (playbackState.currentFlowId) {
-          const flows = await getFlows();
-          const currentFlow = flows.find((f) => f.id === playbackState.currentFlowId);
-          if (currentFlow) executeNextStep(currentFlow);
-        }
+        await resumePlayback(getCommandSession(message.payload), 'continue');
+        return { success: true };
+
+      case 'STEP_PLAYBACK':
+        await resumePlayback(getCommandSession(message.payload), 'step');
+        return { success: true };
+
+      case 'RUN_TO_STEP':
+        await resumePlayback(
+          getCommandSession(message.payload),
+          'run-to',
+          (message.payload as SessionCommandPayload).stepId
+        );
         return { success: true };
 
       case 'SET_PLAYBACK_OPTIONS':
-        playbackState.options = {
-          ...playbackState.options,
-          ...(message.payload as Partial<typeof playbackState.options>),
+        defaultPlaybackOptions = {
+          ...defaultPlaybackOptions,
+          ...(message.payload as Partial<PlaybackOptions>),
         };
-        return { success: true, options: playbackState.options };
+        await persistState();
+        return { success: true, options: defaultPlaybackOptions };
+
+      case 'START_PICKER':
+        // Fails on pages content scripts cannot run in, e.g. chrome:// pages
+        try {
+          await startPicker((message.payload as { tabId: number }).tabId);
+          return { success: true };
+        } catch (error) {
+          return { success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+
+      case 'STOP_PICKER':
+        await stopPicker((message.payload as { tabId: number }).tabId);
+        return { success: true };
+
+      case 'VALIDATE_SELECTORS': {
+        const { tabId, targets } = message.payload as {
+          tabId: number;
+          targets: SelectorCheckRequest[];
+        };
+        return validateSelectors(tabId, targets);
+      }
+
+      case 'ELEMENT_PICKED':
+      case 'PICKER_CANCELLED':
+        // Handled by the editor page that started the picker
+        return { success: true };
+
+      case 'SAVE_SCHEDULE':
+        // Fails on an invalid cron expression, or when storage or alarms do
+        try {
+          return { success: true, schedule: await updateSchedule(message.payload as FlowSchedule) };
+        } catch (error) {
+          return { success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+
+      case 'DELETE_SCHEDULE':
+        try {
+          await removeSchedule((message.payload as { scheduleId: string }).scheduleId);
+          return { success: true };
+        } catch (error) {
+          return { success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+
+      case 'CAPTCHA_DETECTED':
+        await startCaptchaPause(sender.tab?.id, (message.payload as { type: string }).type);
+        return { success: true };
+
+      case 'DISPATCH_TRUSTED_INPUT':
+        return dispatchSessionInput(sender.tab?.id, message.payload as TrustedInputCommand);
 
       case 'GET_STATE':
         return {
           recording: recordingState,
-          playback: playbackState,
+          sessions: [...[...sessions.values()].map((session) => session.state), ...finishedSessions],
         };
 
       default:
@@ -366,7 +1307,8 @@ chrome.runtime.onMessage.addListener((message: Message, sender, sendResponse) =>
 });
 
 // Handle tab updates (for recording navigation)
-chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
+  await stateRestored;
   if (recordingState.isRecording && changeInfo.url) {
     const step: RecordedStep = {
       id: generateId(),
@@ -387,8 +1329,37 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
   }
 });
 
+// Stop sessions cleanly when the tab they are bound to is closed
+chrome.tabs.onRemoved.addListener(async (tabId) => {
+  await stateRestored;
+  for (const session of sessions.values()) {
+    if (session.state.tabId === tabId) {
+      console.warn('Flow Recorder: Playback tab was closed, stopping playback');
+      stopPlayback(session, 'stopped', 'Playback tab was closed');
+    }
+  }
+});
+
+// Run schedules when their alarm fires
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+  await stateRestored;
+  handleScheduleAlarm(alarm, startScheduledPlayback);
+});
+
+// Catch up on scheduled runs missed while the browser was closed, and re-create their alarms
+chrome.runtime.onStartup.addListener(async () => {
+  await stateRestored;
+  restoreSchedules(startScheduledPlayback);
+});
+
+chrome.runtime.onInstalled.addListener(async () => {
+  await stateRestored;
+  restoreSchedules(startScheduledPlayback);
+});
+
 // Handle keyboard shortcuts
 chrome.commands.onCommand.addListener(async (command) => {
+  await stateRestored;
   switch (command) {
     case 'toggle-recording':
       if (recordingState.isRecording) {
@@ -399,9 +1370,7 @@ chrome.commands.onCommand.addListener(async (command) => {
       break;
 
     case 'stop-playback':
-      if (playbackState.isPlaying) {
-        await stopPlayback();
-      }
+      await stopAllPlayback();
       break;
   }
 });
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import type { AssertionKind, AssertionOperator, RecordedStep } from '../types';
+import { generateId } from '../utils/storage';
+
+interface AssertionFormProps {
+  onSubmit: (step: RecordedStep) => void;
+  onCancel: () => void;
+}
+
+const ASSERTION_KINDS: { value: AssertionKind; label: string }[] = [
+  { value: 'exists', label: 'Element exists' },
+  { value: 'visible', label: 'Element is visible' },
+  { value: 'text', label: 'Element text' },
+  { value: 'attribute', label: 'Element attribute' },
+  { value: 'value', label: 'Input value' },
+  { value: 'count', label: 'Element count' },
+  { value: 'url', label: 'Page URL' },
+  { value: 'title', label: 'Page title' },
+];
+
+// Assertions that check the page itself rather than an element
+const PAGE_ASSERTIONS: AssertionKind[] = ['url', 'title'];
+
+// Assertions that compare a value using an operator
+const COMPARED_ASSERTIONS: AssertionKind[] = ['text', 'attribute', 'value', 'url', 'title'];
+
+export function AssertionForm({ onSubmit, onCancel }: AssertionFormProps) {
+  const [kind, setKind] = useState<AssertionKind>('exists');
+  const [css, setCss] = useState('');
+  const [attribute, setAttribute] = useState('');
+  const [operator, setOperator] = useState<AssertionOperator>('equals');
+  const [expected, setExpected] = useState('');
+
+  const needsTarget = !PAGE_ASSERTIONS.includes(kind);
+  const needsOperator = COMPARED_ASSERTIONS.includes(kind);
+  const needsExpected = needsOperator || kind === 'count';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (needsTarget && !css.trim()) {
+      alert('Please enter a CSS selector');
+      return;
+    }
+    if (kind === 'attribute' && !attribute.trim()) {
+      alert('Please enter an attribute name');
+      return;
+    }
+    if (kind === 'count' && isNaN(parseInt(expected, 10))) {
+      alert('Please enter a valid number');
+      return;
+    }
+
+    onSubmit({
+      id: generateId(),
+      type: 'assert',
+      timestamp: Date.now(),
+      delay: 0,
+      target: {
+        css: needsTarget ? css.trim() : '',
+        xpath: '',
+        tagName: needsTarget ? 'element' : 'page',
+        attributes: {},
+      },
+      assertion: {
+        kind,
+        operator: needsOperator ? operator : undefined,
+        expected: needsExpected ? expected : undefined,
+        attribute: kind === 'attribute' ? attribute.trim() : undefined,
+      },
+    });
+  };
+
+  return (
+    <form className="panel" onSubmit={handleSubmit} style={{ marginBottom: '12px' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center' }}>
+        <select
+          className="input"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as AssertionKind)}
+        >
+          {ASSERTION_KINDS.map((k) => (
+            <option key={k.value} value={k.value}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+
+        {needsTarget && (
+          <input
+            type="text"
+            className="input"
+            placeholder="CSS selector"
+            value={css}
+            onChange={(e) => setCss(e.target.value)}
+            style={{ flex: 1, minWidth: '160px' }}
+          />
+        )}
+
+        {kind === 'attribute' && (
+          <input
+            type="text"
+            className="input"
+            placeholder="Attribute name"
+            value={attribute}
+            onChange={(e) => setAttribute(e.target.value)}
+            style={{ width: '140px' }}
+          />
+        )}
+
+        {needsOperator && (
+          <select
+            className="input"
+            value={operator}
+            onChange={(e) => setOperator(e.target.value as AssertionOperator)}
+          >
+            <option value="equals">equals</option>
+            <option value="contains">contains</option>
+            <option value="matches">matches regex</option>
+          </select>
+        )}
+
+        {needsExpected && (
+          <input
+            type={kind === 'count' ? 'number' : 'text'}
+            className="input"
+            placeholder={kind === 'count' ? 'Expected count' : 'Expected value'}
+            value={expected}
+            onChange={(e) => setExpected(e.target.value)}
+            style={{ flex: 1, minWidth: '120px' }}
+          />
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', marginTop: '12px' }}>
+        <button type="button" className="btn btn-secondary btn-small" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="btn btn-primary btn-small">
+          Add Assertion
+        </button>
+      </div>
+    </form>
+  );
+}
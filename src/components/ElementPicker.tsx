@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react';
+import type { ElementSelector, Message, RecordedStep } from '../types';
+import { findStep } from '../utils/blocks';
+import { sendToBackground } from '../utils/messaging';
+import { generateId } from '../utils/storage';
+
+type PickerMode = 'retarget' | 'insert';
+type InsertableStepType = 'click' | 'input' | 'assert';
+
+interface ElementPickerProps {
+  steps: RecordedStep[];
+  selectedStepId: string | null;
+  onRetarget: (stepId: string, target: ElementSelector) => void;
+  // Inserts at a top-level index, or after a step at any depth
+  onInsert: (step: RecordedStep, index: number, afterStepId?: string) => void;
+}
+
+// Build a new step targeting a picked element
+function createPickedStep(
+  type: InsertableStepType,
+  target: ElementSelector,
+  value: string
+): RecordedStep {
+  return {
+    id: generateId(),
+    type,
+    timestamp: Date.now(),
+    delay: 500,
+    target,
+    value: type === 'input' ? value : undefined,
+    assertion: type === 'assert' ? { kind: 'exists' } : undefined,
+  };
+}
+
+export function ElementPicker({ steps, selectedStepId, onRetarget, onInsert }: ElementPickerProps) {
+  const [tabs, setTabs] = useState<chrome.tabs.Tab[]>([]);
+  const [tabId, setTabId] = useState<number | null>(null);
+  const [mode, setMode] = useState<PickerMode>('insert');
+  const [stepType, setStepType] = useState<InsertableStepType>('click');
+  const [inputValue, setInputValue] = useState('');
+  const [position, setPosition] = useState(steps.length + 1);
+  const [picking, setPicking] = useState(false);
+
+  const selectedIndex = steps.findIndex((s) => s.id === selectedStepId);
+  // A selected step inside a block has no top-level position: new steps go right after it
+  const nestedStep =
+    selectedIndex < 0 && selectedStepId ? findStep(steps, selectedStepId) : undefined;
+
+  // Default the insert position to just after the selected step
+  useEffect(() => {
+    setPosition(selectedIndex >= 0 ? selectedIndex + 2 : steps.length + 1);
+  }, [selectedIndex, steps.length]);
+
+  // List the web pages the picker can be injected into
+  const loadTabs = async () => {
+    const allTabs = await chrome.tabs.query({});
+    const webTabs = allTabs.filter((t) => t.id && t.url && /^https?:/.test(t.url));
+    setTabs(webTabs);
+    setTabId((current) =>
+      current && webTabs.some((t) => t.id === current) ? current : (webTabs[0]?.id ?? null)
+    );
+  };
+
+  useEffect(() => {
+    loadTabs();
+  }, []);
+
+  // Listen for the picked element while picking
+  useEffect(() => {
+    if (!picking) return;
+
+    const listener = (message: Message) => {
+      if (message.type !== 'ELEMENT_PICKED' && message.type !== 'PICKER_CANCELLED') return;
+
+      setPicking(false);
+      if (tabId) sendToBackground('STOP_PICKER', { tabId });
+
+      // Bring the editor back to the front
+      chrome.tabs.getCurrent((tab) => {
+        if (tab?.id) chrome.tabs.update(tab.id, { active: true });
+      });
+
+      if (message.type === 'PICKER_CANCELLED') return;
+
+      const target = message.payload as ElementSelector;
+      if (mode === 'retarget' && selectedStepId) {
+        onRetarget(selectedStepId, target);
+      } else if (nestedStep) {
+        onInsert(createPickedStep(stepType, target, inputValue), 0, nestedStep.id);
+      } else {
+        const index = Math.min(Math.max(position - 1, 0), steps.length);
+        onInsert(createPickedStep(stepType, target, inputValue), index);
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [
+    picking,
+    tabId,
+    mode,
+    selectedStepId,
+    nestedStep,
+    position,
+    steps.length,
+    stepType,
+    inputValue,
+    onRetarget,
+    onInsert,
+  ]);
+
+  const handlePick = async () => {
+    if (!tabId) return;
+    if (mode === 'retarget' && !selectedStepId) {
+      alert('Select a step in the list to retarget');
+      return;
+    }
+
+    try {
+      setPicking(true);
+      const response = await sendToBackground<{ success: boolean; error?: string }>(
+        'START_PICKER',
+        { tabId }
+      );
+      if (!response?.success) {
+        throw new Error(response?.error || 'No answer from the extension');
+      }
+    } catch (error) {
+      setPicking(false);
+      alert('Could not start the picker: ' + (error as Error).message);
+    }
+  };
+
+  const handleCancel = async () => {
+    setPicking(false);
+    if (tabId) await sendToBackground('STOP_PICKER', { tabId });
+  };
+
+  return (
+    <div className="panel" style={{ marginBottom: '12px' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center' }}>
+        <select
+          className="input"
+          value={tabId ?? ''}
+          onChange={(e) => setTabId(Number(e.target.value))}
+          onFocus={loadTabs}
+          style={{ flex: 1, minWidth: '180px' }}
+          disabled={picking}
+        >
+          {tabs.length === 0 && <option value="">No web pages open</option>}
+          {tabs.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.title || t.url}
+            </option>
+          ))}
+        </select>
+
+        <select
+          className="input"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as PickerMode)}
+          disabled={picking}
+        >
+          <option value="insert">Insert new step</option>
+          <option value="retarget">Retarget selected step</option>
+        </select>
+
+        {mode === 'insert' && (
+          <>
+            <select
+              className="input"
+              value={stepType}
+              onChange={(e) => setStepType(e.target.value as InsertableStepType)}
+              disabled={picking}
+            >
+              <option value="click">Click</option>
+              <option value="input">Input</option>
+              <option value="assert">Assert exists</option>
+            </select>
+            {stepType === 'input' && (
+              <input
+                type="text"
+                className="input"
+                placeholder="Value to type"
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value)}
+                disabled={picking}
+              />
+            )}
+            {nestedStep ? (
+              <span style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>
+                after the selected step
+              </span>
+            ) : (
+              <>
+                <label style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>at #</label>
+                <input
+                  type="number"
+                  className="input"
+                  min={1}
+                  max={steps.length + 1}
+                  value={position}
+                  onChange={(e) => setPosition(Number(e.target.value))}
+                  style={{ width: '70px' }}
+                  disabled={picking}
+                />
+              </>
+            )}
+          </>
+        )}
+
+        {picking ? (
+          <button className="btn btn-secondary btn-small" onClick={handleCancel}>
+            Cancel Picking
+          </button>
+        ) : (
+          <button className="btn btn-primary btn-small" onClick={handlePick} disabled={!tabId}>
+            🎯 Pick Element
+          </button>
+        )}
+      </div>
+
+      <p className="panel-hint" style={{ marginTop: '8px' }}>
+        {picking
+          ? 'Hover over the page and click the element to pick it. Press Esc to cancel.'
+          : mode === 'retarget'
+            ? selectedIndex >= 0
+              ? `The picked element will replace the target of step ${selectedIndex + 1}.`
+              : nestedStep
+                ? 'The picked element will replace the target of the selected step.'
+                : 'Select a step in the list below to retarget it.'
+            : 'The picked element becomes the target of a new step.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import type {
+  ElementSelector,
+  Flow,
+  HealStatus,
+  SelectorHeal,
+  SelectorHealingMode,
+} from '../types';
+import { getHeals } from '../utils/storage';
+import { getStepDescription } from '../utils/steps';
+import { findStep } from '../utils/blocks';
+import { describeCandidate } from '../utils/selectors';
+import { orderCandidates } from '../utils/locator';
+import { DEFAULT_SELECTOR_HEALING, applyHeal, dismissHeal, revertHeal } from '../utils/healing';
+
+interface HealLogProps {
+  flow: Flow;
+  onChange: (updates: Partial<Flow>) => void;
+}
+
+const STATUS_LABELS: Record<HealStatus, { label: string; color: string }> = {
+  suggested: { label: '● Suggested', color: 'var(--warning)' },
+  applied: { label: '✓ Applied', color: 'var(--success)' },
+  reverted: { label: '↺ Reverted', color: 'var(--text-secondary)' },
+  dismissed: { label: '✕ Dismissed', color: 'var(--text-secondary)' },
+};
+
+// The selector playback tries first for a target
+function describePrimarySelector(target: ElementSelector): string {
+  const candidate = orderCandidates(target.candidates)[0];
+  return candidate ? describeCandidate(candidate) : target.css || target.xpath;
+}
+
+// Heal log of a flow: step targets replaced by the selector of the element a fallback lookup
+// found during playback, with the setting deciding whether that happens automatically
+export function HealLog({ flow, onChange }: HealLogProps) {
+  const [heals, setHeals] = useState<SelectorHeal[]>([]);
+  const mode = flow.selectorHealing ?? DEFAULT_SELECTOR_HEALING;
+
+  // Load the log and refresh whenever it changes in storage
+  useEffect(() => {
+    const load = () => getHeals(flow.id).then(setHeals);
+    load();
+
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area === 'local' && changes.heals) load();
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, [flow.id]);
+
+  // Apply, revert or dismiss a heal; the editor picks up the changed flow from storage
+  const handleAction = async (
+    action: (heal: SelectorHeal) => Promise<void>,
+    heal: SelectorHeal
+  ) => {
+    try {
+      await action(heal);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  // Reverting is offered while the step still has the target the heal gave it
+  const canRevert = (heal: SelectorHeal) => {
+    const step = findStep(flow.steps, heal.stepId);
+    return !!step && JSON.stringify(step.target) === JSON.stringify(heal.healedTarget);
+  };
+
+  const describeStep = (heal: SelectorHeal) => {
+    const step = findStep(flow.steps, heal.stepId);
+    return step ? getStepDescription(step) : 'Deleted step';
+  };
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <h2 style={{ fontSize: '16px', fontWeight: '600' }}>Selector Healing ({heals.length})</h2>
+        <select
+          className="input"
+          value={mode}
+          onChange={(e) => onChange({ selectorHealing: e.target.value as SelectorHealingMode })}
+        >
+          <option value="off">Off</option>
+          <option value="suggest">Suggest fixes</option>
+          <option value="auto">Update steps automatically</option>
+        </select>
+      </div>
+      <p className="panel-hint">
+        When playback finds a step&apos;s element only through a fallback (e.g. its name, label or
+        text) because the primary selector broke, the selector of the element it found is logged
+        here. Steps using variables or loop elements in their selectors are not healed.
+      </p>
+
+      {heals.length > 0 && (
+        <table className="data-table" style={{ marginTop: '8px' }}>
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Step</th>
+              <th>Found via</th>
+              <th>Change</th>
+              <th>Status</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {heals.map((heal) => {
+              const status = STATUS_LABELS[heal.status];
+              return (
+                <tr key={heal.id}>
+                  <td>{new Date(heal.createdAt).toLocaleString()}</td>
+                  <td>{describeStep(heal)}</td>
+                  <td>{heal.matchedStrategy ?? '—'}</td>
+                  <td style={{ wordBreak: 'break-all' }}>
+                    <code>{describePrimarySelector(heal.previousTarget)}</code> →{' '}
+                    <code>{describePrimarySelector(heal.healedTarget)}</code>
+                  </td>
+                  <td style={{ color: status.color, whiteSpace: 'nowrap' }}>{status.label}</td>
+                  <td style={{ whiteSpace: 'nowrap' }}>
+                    {heal.status === 'suggested' && (
+                      <>
+                        <button
+                          className="btn btn-primary btn-small"
+                          onClick={() => handleAction(applyHeal, heal)}
+                        >
+                          Apply
+                        </button>{' '}
+                        <button
+                          className="btn btn-secondary btn-small"
+                          onClick={() => handleAction(dismissHeal, heal)}
+                        >
+                          Dismiss
+                        </button>
+                      </>
+                    )}
+                    {heal.status === 'applied' && (
+                      <button
+                        className="btn btn-secondary btn-small"
+                        onClick={() => handleAction(revertHeal, heal)}
+                        disabled={!canRevert(heal)}
+                        title={
+                          canRevert(heal)
+                            ? 'Put back the target the step had before'
+                            : "The step's target was changed since"
+                        }
+                      >
+                        Revert
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
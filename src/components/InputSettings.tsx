@@ -0,0 +1,91 @@
+import type { DialogResponse, Flow, InputBackendKind, TypingOptions } from '../types';
+import { DEFAULT_TYPING_OPTIONS } from '../utils/policy';
+import { DEFAULT_DIALOG_RESPONSE } from '../utils/dialogs';
+import { TypingFields, validateTyping } from './TypingFields';
+
+interface InputSettingsProps {
+  flow: Flow;
+  onChange: (updates: Partial<Flow>) => void;
+}
+
+// Flow-wide settings of how playback enters input, which steps can override
+export function InputSettings({ flow, onChange }: InputSettingsProps) {
+  const typing = { mode: DEFAULT_TYPING_OPTIONS.mode, ...flow.typing };
+  const dialogResponse = flow.dialogResponse ?? DEFAULT_DIALOG_RESPONSE;
+
+  const handleTypingChange = (updated: Partial<TypingOptions>) => {
+    if (validateTyping(updated)) return;
+    onChange({ typing: updated });
+  };
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <h2 style={{ fontSize: '16px', fontWeight: '600' }}>Input</h2>
+      </div>
+      <div className="step-editor-grid">
+        <label className="step-editor-field">
+          <span>Input events</span>
+          <select
+            className="input"
+            value={flow.inputBackend ?? 'synthetic'}
+            onChange={(e) => onChange({ inputBackend: e.target.value as InputBackendKind })}
+          >
+            <option value="synthetic">Synthetic (page events)</option>
+            <option value="debugger">Trusted (via debugger)</option>
+          </select>
+        </label>
+        <TypingFields typing={typing} onChange={handleTypingChange} />
+        <label className="step-editor-field">
+          <span>Other dialogs</span>
+          <select
+            className="input"
+            value={dialogResponse.action}
+            onChange={(e) =>
+              onChange({
+                dialogResponse: {
+                  ...dialogResponse,
+                  action: e.target.value as DialogResponse['action'],
+                },
+              })
+            }
+          >
+            <option value="dismiss">Cancel</option>
+            <option value="accept">OK</option>
+          </select>
+        </label>
+        {dialogResponse.action === 'accept' && (
+          <label className="step-editor-field">
+            <span>Prompt text</span>
+            <input
+              type="text"
+              className="input"
+              placeholder="Prompt's default value"
+              value={dialogResponse.promptText ?? ''}
+              onChange={(e) =>
+                onChange({
+                  dialogResponse: { ...dialogResponse, promptText: e.target.value || undefined },
+                })
+              }
+            />
+          </label>
+        )}
+      </div>
+      <p className="panel-hint">
+        Typing key by key sends keyboard and input events for every character, for fields with
+        autocomplete, input masks or per-key validation. Input steps can override this.
+      </p>
+      <p className="panel-hint">
+        Alerts, confirms and prompts are answered during playback as recorded in dialog steps; other
+        dialogs get the answer chosen here.
+      </p>
+      {flow.inputBackend === 'debugger' && (
+        <p className="panel-hint">
+          Trusted events work on sites that ignore synthetic ones and for features that need a real
+          user gesture (file dialogs, fullscreen, clipboard). Chrome shows a debugging banner on the
+          playback tab while the flow runs.
+        </p>
+      )}
+    </div>
+  );
+}
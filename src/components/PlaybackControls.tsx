@@ -1,87 +1,410 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import type {
+  PlaybackState,
+  PlaybackTarget,
+  PlaybackTiming,
+  ScreenshotMode,
+  StepPolicy,
+} from '../types';
 import { sendToBackground } from '../utils/messaging';
+import {
+  DEFAULT_CAPTCHA_TIMEOUT,
+  DEFAULT_QUIET_PERIOD,
+  DEFAULT_STEP_POLICY,
+  mergePolicy,
+} from '../utils/policy';
+import { formatStepPath } from '../utils/blocks';
+import { PolicyFields, validatePolicy } from './PolicyFields';
 
 interface PlaybackControlsProps {
   flowId: string;
+  cursorStepId?: string | null;
+  onStateChange?: (playback: PlaybackState | null) => void;
 }
 
-export function PlaybackControls({ flowId }: PlaybackControlsProps) {
+export function PlaybackControls({ flowId, cursorStepId, onStateChange }: PlaybackControlsProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(1);
+  const [timing, setTiming] = useState<PlaybackTiming>('recorded');
+  const [quietPeriod, setQuietPeriod] = useState(DEFAULT_QUIET_PERIOD);
+  const [screenshotMode, setScreenshotMode] = useState<ScreenshotMode>('on-failure');
+  const [annotateScreenshots, setAnnotateScreenshots] = useState(true);
+  const [target, setTarget] = useState<PlaybackTarget>('active-tab');
+  const [policy, setPolicy] = useState<Partial<StepPolicy>>(DEFAULT_STEP_POLICY);
+  const [showPolicy, setShowPolicy] = useState(false);
+  const [captchaTimeout, setCaptchaTimeout] = useState(DEFAULT_CAPTCHA_TIMEOUT);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
 
-  const handlePlay = async () => {
+  // Fetch the state of this view's session, marking playback finished once it has ended
+  const refreshSession = useCallback(
+    async (id: string) => {
+      const state = await sendToBackground<{ sessions: PlaybackState[] }>('GET_STATE');
+      const session = state.sessions.find((s) => s.sessionId === id);
+      if (session) setPlayback(session);
+      onStateChange?.(session?.isPlaying ? session : null);
+      if (!session?.isPlaying) {
+        setIsPlaying(false);
+      }
+    },
+    [onStateChange]
+  );
+
+  // Follow a session of this flow that is already running, e.g. one started from the popup
+  useEffect(() => {
+    sendToBackground<{ sessions: PlaybackState[] }>('GET_STATE')
+      .then((state) => {
+        const running = state.sessions.find((s) => s.isPlaying && s.currentFlowId === flowId);
+        if (running) {
+          setSessionId(running.sessionId);
+          setPlayback(running);
+          setIsPlaying(true);
+        }
+      })
+      .catch(() => {
+        // Ignore, the background may still be starting
+      });
+  }, [flowId]);
+
+  // Poll playback progress while playing
+  useEffect(() => {
+    if (!isPlaying || !sessionId) return;
+
+    const interval = setInterval(async () => {
+      try {
+        await refreshSession(sessionId);
+      } catch {
+        // Ignore polling errors
+      }
+    }, 500);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, sessionId, refreshSession]);
+
+  // Start playback; in debug mode it pauses before every step until continued
+  const handlePlay = async (debug: boolean) => {
     try {
-      // Set speed before starting playback
-      await sendToBackground('SET_PLAYBACK_OPTIONS', { speed });
-      await sendToBackground('START_PLAYBACK', flowId);
+      const response = await sendToBackground<{
+        success: boolean;
+        sessionId?: string;
+        error?: string;
+      }>('START_PLAYBACK', {
+        flowId,
+        options: {
+          speed,
+          timing,
+          quietPeriod,
+          screenshotMode,
+          annotateScreenshots,
+          target,
+          stepByStep: debug,
+          policy: mergePolicy(DEFAULT_STEP_POLICY, policy),
+          captchaTimeout,
+        },
+      });
+      if (!response.success || !response.sessionId) {
+        alert(`Could not start playback: ${response.error}`);
+        return;
+      }
+      setSessionId(response.sessionId);
+      setPlayback(null);
       setIsPlaying(true);
     } catch (error) {
       console.error('Failed to start playback:', error);
     }
   };
 
+  // Send a debugger command for this view's session and refresh state right away
+  const sendDebugCommand = async (
+    type: 'PAUSE_PLAYBACK' | 'RESUME_PLAYBACK' | 'STEP_PLAYBACK' | 'RUN_TO_STEP',
+    stepId?: string
+  ) => {
+    if (!sessionId) return;
+    try {
+      await sendToBackground(type, { sessionId, stepId });
+      await refreshSession(sessionId);
+    } catch (error) {
+      console.error('Debugger command failed:', error);
+    }
+  };
+
   const handleStop = async () => {
+    if (!sessionId) return;
     try {
-      await sendToBackground('STOP_PLAYBACK');
+      await sendToBackground('STOP_PLAYBACK', { sessionId });
       setIsPlaying(false);
+      onStateChange?.(null);
     } catch (error) {
       console.error('Failed to stop playback:', error);
     }
   };
 
+  const isPaused = isPlaying && !!playback?.isPaused;
+  const policyError =
+    validatePolicy(policy) ||
+    (isNaN(captchaTimeout) || captchaTimeout < 0
+      ? 'CAPTCHA wait must be a non-negative number'
+      : null) ||
+    (isNaN(quietPeriod) || quietPeriod < 0 ? 'Quiet period must be a non-negative number' : null);
+  const rowResults = playback?.rowResults || [];
+  const failedRows = rowResults.filter((r) => r.status === 'failed');
+
   return (
-    <div
-      style={{
-        display: 'flex',
-        alignItems: 'center',
-        gap: '16px',
-        padding: '16px',
-        background: 'var(--bg-primary)',
-        borderRadius: 'var(--radius)',
-        border: '1px solid var(--border)',
-      }}
-    >
-      <div style={{ display: 'flex', gap: '8px' }}>
-        {!isPlaying ? (
-          <button className="btn btn-primary" onClick={handlePlay}>
-            ▶ Play
-          </button>
-        ) : (
-          <button className="btn btn-secondary" onClick={handleStop}>
-            ⏹ Stop
-          </button>
-        )}
-      </div>
+    <>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '16px',
+          padding: '16px',
+          background: 'var(--bg-primary)',
+          borderRadius: 'var(--radius)',
+          border: '1px solid var(--border)',
+        }}
+      >
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {!isPlaying ? (
+            <>
+              <button
+                className="btn btn-primary"
+                onClick={() => handlePlay(false)}
+                disabled={!!policyError}
+              >
+                ▶ Play
+              </button>
+              <button
+                className="btn btn-secondary"
+                onClick={() => handlePlay(true)}
+                disabled={!!policyError}
+                title="Pause before every step"
+              >
+                🐞 Debug
+              </button>
+            </>
+          ) : (
+            <>
+              <button className="btn btn-secondary" onClick={handleStop}>
+                ⏹ Stop
+              </button>
+              {isPaused ? (
+                <>
+                  <button
+                    className="btn btn-primary"
+                    onClick={() => sendDebugCommand('RESUME_PLAYBACK')}
+                    title="Run until the next breakpoint"
+                  >
+                    ▶ Continue
+                  </button>
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => sendDebugCommand('STEP_PLAYBACK')}
+                    title="Run exactly one step"
+                  >
+                    ⤼ Step Over
+                  </button>
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => sendDebugCommand('RUN_TO_STEP', cursorStepId ?? undefined)}
+                    disabled={!cursorStepId}
+                    title="Run until the selected step"
+                  >
+                    ⇥ Run to Cursor
+                  </button>
+                </>
+              ) : (
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => sendDebugCommand('PAUSE_PLAYBACK')}
+                >
+                  ⏸ Pause
+                </button>
+              )}
+            </>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <label style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>Timing:</label>
+          <select
+            value={timing}
+            onChange={(e) => setTiming(e.target.value as PlaybackTiming)}
+            className="input"
+            disabled={isPlaying}
+            title="Auto-wait acts as soon as the page has settled and the target is ready"
+          >
+            <option value="recorded">Recorded delays</option>
+            <option value="auto-wait">Auto-wait</option>
+          </select>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <label style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>Speed:</label>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="input"
+            disabled={isPlaying || timing === 'auto-wait'}
+          >
+            <option value={0.5}>0.5x (Slow)</option>
+            <option value={1}>1x (Normal)</option>
+            <option value={1.5}>1.5x (Fast)</option>
+            <option value={2}>2x (Faster)</option>
+          </select>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <label style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>Play in:</label>
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value as PlaybackTarget)}
+            className="input"
+            disabled={isPlaying}
+            title="Steps only ever go to this tab, so you can keep working in others"
+          >
+            <option value="active-tab">Current tab</option>
+            <option value="background-tab">New background tab</option>
+            <option value="new-window">New window</option>
+          </select>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <label style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>Screenshots:</label>
+          <select
+            value={screenshotMode}
+            onChange={(e) => setScreenshotMode(e.target.value as ScreenshotMode)}
+            className="input"
+            disabled={isPlaying}
+          >
+            <option value="off">Off</option>
+            <option value="on-failure">On failure</option>
+            <option value="every-step">Every step</option>
+          </select>
+          <label
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              fontSize: '14px',
+              color: 'var(--text-secondary)',
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={annotateScreenshots}
+              onChange={(e) => setAnnotateScreenshots(e.target.checked)}
+              disabled={isPlaying || screenshotMode === 'off'}
+            />
+            Outline target
+          </label>
+        </div>
 
-      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-        <label style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>Speed:</label>
-        <select
-          value={speed}
-          onChange={(e) => setSpeed(Number(e.target.value))}
-          className="input"
-          disabled={isPlaying}
+        <button
+          className="btn btn-secondary btn-small"
+          onClick={() => setShowPolicy(!showPolicy)}
+          title="Timeouts and retries applied to every step"
         >
-          <option value={0.5}>0.5x (Slow)</option>
-          <option value={1}>1x (Normal)</option>
-          <option value={1.5}>1.5x (Fast)</option>
-          <option value={2}>2x (Faster)</option>
-        </select>
+          ⚙ Timeouts {showPolicy ? '▴' : '▾'}
+        </button>
+
+        {isPlaying && (
+          <span
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              gap: '8px',
+              color: 'var(--success)',
+              fontWeight: '500',
+            }}
+          >
+            <span style={{ animation: isPaused ? undefined : 'recording-blink 1s infinite' }}>
+              ●
+            </span>
+            {playback?.captchaPause
+              ? `Waiting for the ${playback.captchaPause.type} to be solved in the playback tab`
+              : isPaused
+                ? `Paused at step ${formatStepPath(playback!.frames)}`
+                : 'Playing...'}
+            {playback &&
+              playback.rowCount > 1 &&
+              ` (row ${playback.currentRowIndex + 1}/${playback.rowCount})`}
+          </span>
+        )}
       </div>
 
-      {isPlaying && (
-        <span
-          style={{
-            display: 'inline-flex',
-            alignItems: 'center',
-            gap: '8px',
-            color: 'var(--success)',
-            fontWeight: '500',
-          }}
-        >
-          <span style={{ animation: 'recording-blink 1s infinite' }}>●</span>
-          Playing...
-        </span>
+      {showPolicy && (
+        <div className="panel" style={{ marginTop: '12px' }}>
+          <p className="panel-hint" style={{ marginBottom: '8px' }}>
+            Flow-level timeout and retry policy. Steps can override it in their editor.
+          </p>
+          <PolicyFields policy={policy} onChange={setPolicy} disabled={isPlaying} />
+          <div className="step-editor-grid" style={{ marginTop: '8px' }}>
+            {timing === 'auto-wait' && (
+              <label className="step-editor-field">
+                <span>Quiet period (ms)</span>
+                <input
+                  type="number"
+                  className="input"
+                  min={0}
+                  value={quietPeriod}
+                  disabled={isPlaying}
+                  onChange={(e) => setQuietPeriod(Number(e.target.value))}
+                />
+              </label>
+            )}
+            <label className="step-editor-field">
+              <span>CAPTCHA wait (s)</span>
+              <input
+                type="number"
+                className="input"
+                min={0}
+                value={captchaTimeout / 1000}
+                disabled={isPlaying}
+                onChange={(e) => setCaptchaTimeout(Number(e.target.value) * 1000)}
+              />
+            </label>
+          </div>
+          <p className="panel-hint">
+            When a step finds an unsolved CAPTCHA, playback waits this long for you to solve it and
+            shows a desktop notification. Set 0 to not wait.
+          </p>
+          {timing === 'auto-wait' && (
+            <p className="panel-hint">
+              With auto-wait, each step waits until the page has had no DOM changes for the quiet
+              period and no requests in flight, and until its element is visible, enabled, not
+              moving and not covered, then acts right away. Step timeouts still apply.
+            </p>
+          )}
+          {policyError && <span className="step-editor-error">{policyError}</span>}
+        </div>
+      )}
+
+      {playback && playback.rowCount > 1 && rowResults.length > 0 && (
+        <div className="panel" style={{ marginTop: '12px' }}>
+          <p style={{ fontSize: '14px', fontWeight: '500', marginBottom: '8px' }}>
+            Data rows: {rowResults.length - failedRows.length} passed, {failedRows.length} failed
+          </p>
+          <table className="data-table">
+            <tbody>
+              {rowResults.map((result) => (
+                <tr key={result.rowIndex}>
+                  <td>Row {result.rowIndex + 1}</td>
+                  <td
+                    style={{
+                      color: result.status === 'passed' ? 'var(--success)' : 'var(--danger)',
+                    }}
+                  >
+                    {result.status === 'passed' ? '✓ Passed' : '✕ Failed'}
+                  </td>
+                  <td className="panel-hint">
+                    {result.failedStepPath && `Step ${result.failedStepPath}: `}
+                    {result.error}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
       )}
-    </div>
+    </>
   );
 }
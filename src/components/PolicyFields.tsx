@@ -0,0 +1,75 @@
+import type { FailureAction, StepPolicy } from '../types';
+
+interface PolicyFieldsProps {
+  policy: Partial<StepPolicy>;
+  onChange: (policy: Partial<StepPolicy>) => void;
+  // Empty fields fall back to the flow-level policy (per-step overrides)
+  allowInherit?: boolean;
+  disabled?: boolean;
+}
+
+const NUMBER_FIELDS: { key: 'timeout' | 'retries' | 'retryInterval'; label: string }[] = [
+  { key: 'timeout', label: 'Timeout (ms)' },
+  { key: 'retries', label: 'Retries' },
+  { key: 'retryInterval', label: 'Retry interval (ms)' },
+];
+
+const FAILURE_ACTIONS: { value: FailureAction; label: string }[] = [
+  { value: 'fail', label: 'Fail the run' },
+  { value: 'continue', label: 'Mark failed and continue' },
+  { value: 'skip', label: 'Skip the step' },
+];
+
+// Check a policy for invalid values, returning an error message or null
+export function validatePolicy(policy: Partial<StepPolicy>): string | null {
+  for (const { key, label } of NUMBER_FIELDS) {
+    const value = policy[key];
+    if (value !== undefined && (isNaN(value) || value < 0)) {
+      return `${label} must be a non-negative number`;
+    }
+  }
+  return null;
+}
+
+export function PolicyFields({ policy, onChange, allowInherit, disabled }: PolicyFieldsProps) {
+  const update = (updates: Partial<StepPolicy>) => {
+    onChange({ ...policy, ...updates });
+  };
+
+  return (
+    <div className="step-editor-grid">
+      {NUMBER_FIELDS.map(({ key, label }) => (
+        <label key={key} className="step-editor-field">
+          <span>{label}</span>
+          <input
+            type="number"
+            className="input"
+            min={0}
+            value={policy[key] ?? ''}
+            placeholder={allowInherit ? 'Flow setting' : undefined}
+            disabled={disabled}
+            onChange={(e) =>
+              update({ [key]: e.target.value === '' ? undefined : Number(e.target.value) })
+            }
+          />
+        </label>
+      ))}
+      <label className="step-editor-field">
+        <span>On failure</span>
+        <select
+          className="input"
+          value={policy.onFailure ?? ''}
+          disabled={disabled}
+          onChange={(e) => update({ onFailure: (e.target.value || undefined) as FailureAction })}
+        >
+          {allowInherit && <option value="">Flow setting</option>}
+          {FAILURE_ACTIONS.map((action) => (
+            <option key={action.value} value={action.value}>
+              {action.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
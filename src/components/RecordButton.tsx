@@ -1,32 +1,11 @@
 interface RecordButtonProps {
   isRecording: boolean;
-  isPlaying: boolean;
   stepCount?: number;
   onStart: () => void;
   onStop: () => void;
-  onStopPlayback: () => void;
 }
 
-export function RecordButton({
-  isRecording,
-  isPlaying,
-  stepCount = 0,
-  onStart,
-  onStop,
-  onStopPlayback,
-}: RecordButtonProps) {
-  if (isPlaying) {
-    return (
-      <div className="record-section">
-        <button className="btn btn-stop-playback btn-large" onClick={onStopPlayback}>
-          <span className="btn-icon-large">⏹</span>
-          Stop Playback
-        </button>
-        <p className="record-status">Playing flow...</p>
-      </div>
-    );
-  }
-
+export function RecordButton({ isRecording, stepCount = 0, onStart, onStop }: RecordButtonProps) {
   if (isRecording) {
     return (
       <div className="record-section">
@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import type {
+  CaptchaOutcome,
+  ExtractedValue,
+  Flow,
+  PlaybackRun,
+  RunStatus,
+  StepRunResult,
+} from '../types';
+import { getRuns, deleteRuns } from '../utils/storage';
+import { exportRunResults } from '../utils/export';
+import { getStepDescription } from '../utils/steps';
+import { describeDialog } from '../utils/dialogs';
+import { findStep } from '../utils/blocks';
+import { ScreenshotViewer, type ScreenshotFrame } from './ScreenshotViewer';
+
+interface RunHistoryProps {
+  flow: Flow;
+  // All saved flows, used to describe the steps of called sub-flows
+  flows?: Flow[];
+}
+
+const STATUS_LABELS: Record<RunStatus, { label: string; color: string }> = {
+  running: { label: '● Running', color: 'var(--primary)' },
+  passed: { label: '✓ Passed', color: 'var(--success)' },
+  failed: { label: '✕ Failed', color: 'var(--danger)' },
+  stopped: { label: '⏹ Stopped', color: 'var(--text-secondary)' },
+};
+
+const STEP_STATUS_COLORS: Record<StepRunResult['status'], string> = {
+  passed: 'var(--success)',
+  failed: 'var(--danger)',
+  skipped: 'var(--text-secondary)',
+};
+
+const CAPTCHA_OUTCOMES: Record<CaptchaOutcome, string> = {
+  solved: 'solved',
+  continued: 'continued by user',
+  stopped: 'playback stopped',
+  timeout: 'not solved in time',
+};
+
+// How deeply a step result is nested in blocks and sub-flows, from its path
+function getNestingDepth(result: StepRunResult): number {
+  return result.path ? result.path.split('.').filter((part) => part !== 'else').length - 1 : 0;
+}
+
+// Short display of a value captured by an extract step
+function formatExtracted(value: ExtractedValue): string {
+  if (typeof value !== 'string') return `table with ${value.length} rows`;
+  return value.length > 60 ? `"${value.slice(0, 60)}…"` : `"${value}"`;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function RunHistory({ flow, flows = [] }: RunHistoryProps) {
+  const [runs, setRuns] = useState<PlaybackRun[]>([]);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [viewer, setViewer] = useState<{ frames: ScreenshotFrame[]; index: number } | null>(null);
+
+  // Load runs and refresh whenever the history changes in storage
+  useEffect(() => {
+    const load = () => getRuns(flow.id).then(setRuns);
+    load();
+
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area === 'local' && changes.runs) load();
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, [flow.id]);
+
+  const handleClear = async () => {
+    if (!confirm('Delete the run history of this flow?')) return;
+    await deleteRuns(flow.id);
+  };
+
+  const describeStep = (result: StepRunResult) => {
+    const source = result.flowId ? flows.find((f) => f.id === result.flowId) : flow;
+    const step = source && findStep(source.steps, result.stepId);
+    return step ? getStepDescription(step, flows) : `Step ${result.stepIndex + 1} (deleted)`;
+  };
+
+  // Open the screenshots of a run, starting at the frame of the given step result
+  const openScreenshots = (run: PlaybackRun, resultIndex: number) => {
+    const withScreenshots = run.steps.filter((s) => s.screenshotId);
+    const frames = withScreenshots.map((result) => ({
+      screenshotId: result.screenshotId!,
+      label: `Step ${result.path ?? result.stepIndex + 1}: ${describeStep(result)}`,
+      failed: result.status === 'failed',
+    }));
+    setViewer({ frames, index: withScreenshots.indexOf(run.steps[resultIndex]) });
+  };
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <h2 style={{ fontSize: '16px', fontWeight: '600' }}>Run History ({runs.length})</h2>
+        {runs.length > 0 && (
+          <button className="btn btn-danger btn-small" onClick={handleClear}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      {runs.length === 0 ? (
+        <p className="panel-hint">This flow has not been played yet.</p>
+      ) : (
+        <div className="run-list">
+          {runs.map((run) => {
+            const status = STATUS_LABELS[run.status];
+            const failedSteps = run.steps.filter((s) => s.status === 'failed').length;
+            const isExpanded = expandedRunId === run.id;
+
+            return (
+              <div key={run.id} className="run-item">
+                <div
+                  className="run-summary"
+                  onClick={() => setExpandedRunId(isExpanded ? null : run.id)}
+                >
+                  <span style={{ color: status.color, fontWeight: 500, width: '90px' }}>
+                    {status.label}
+                  </span>
+                  <span style={{ flex: 1 }}>
+                    {new Date(run.startedAt).toLocaleString()}
+                    {run.scheduleId && (
+                      <span className="panel-hint" title="Started by a schedule">
+                        {' '}
+                        ⏰ Scheduled
+                      </span>
+                    )}
+                  </span>
+                  <span className="panel-hint">
+                    {run.steps.length} steps
+                    {failedSteps > 0 && `, ${failedSteps} failed`}
+                    {run.rowResults.length > 1 && ` • ${run.rowResults.length} rows`}
+                    {run.endedAt && ` • ${formatDuration(run.endedAt - run.startedAt)}`}
+                    {run.stopReason && ` • ${run.stopReason}`}
+                  </span>
+                  <span>{isExpanded ? '▴' : '▾'}</span>
+                </div>
+
+                {isExpanded && run.rowResults.some((r) => r.extracted) && (
+                  <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                    <span className="panel-hint" style={{ flex: 1 }}>
+                      Extracted data
+                    </span>
+                    <button
+                      className="btn btn-secondary btn-small"
+                      onClick={() => exportRunResults(run, 'csv')}
+                    >
+                      Export CSV
+                    </button>
+                    <button
+                      className="btn btn-secondary btn-small"
+                      onClick={() => exportRunResults(run, 'json')}
+                    >
+                      Export JSON
+                    </button>
+                  </div>
+                )}
+
+                {isExpanded && (
+                  <table className="data-table" style={{ marginTop: '8px' }}>
+                    <thead>
+                      <tr>
+                        <th>#</th>
+                        {run.rowResults.length > 1 && <th>Row</th>}
+                        <th>Step</th>
+                        <th>Status</th>
+                        <th>Duration</th>
+                        <th>Strategy</th>
+                        <th>Retries</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {run.steps.map((result, i) => (
+                        <tr key={i}>
+                          <td>{result.path ?? result.stepIndex + 1}</td>
+                          {run.rowResults.length > 1 && <td>{result.rowIndex + 1}</td>}
+                          <td style={{ paddingLeft: `${8 + getNestingDepth(result) * 16}px` }}>
+                            {result.flowId && (
+                              <span className="panel-hint">
+                                {flows.find((f) => f.id === result.flowId)?.name ?? 'Sub-flow'}{' '}
+                                ›{' '}
+                              </span>
+                            )}
+                            {describeStep(result)}
+                            {result.conditionMet !== undefined && (
+                              <span className="panel-hint">
+                                {result.iteration !== undefined
+                                  ? result.conditionMet
+                                    ? ` → iteration ${result.iteration + 1}`
+                                    : ' → done'
+                                  : result.conditionMet
+                                    ? ' → then'
+                                    : ' → else'}
+                              </span>
+                            )}
+                            {result.extracted !== undefined && (
+                              <span className="panel-hint">
+                                {' → '}
+                                {formatExtracted(result.extracted)}
+                              </span>
+                            )}
+                            {result.captcha && (
+                              <div className="panel-hint">
+                                🤖 Waited {formatDuration(result.captcha.waited)} for{' '}
+                                {result.captcha.type}: {CAPTCHA_OUTCOMES[result.captcha.outcome]}
+                              </div>
+                            )}
+                            {result.dialogs?.map((dialog, j) => (
+                              <div key={j} className="panel-hint" title={dialog.message}>
+                                💬 {describeDialog(dialog)}
+                              </div>
+                            ))}
+                            {result.error && (
+                              <div style={{ color: 'var(--danger)', fontSize: '12px' }}>
+                                {result.error}
+                              </div>
+                            )}
+                          </td>
+                          <td style={{ color: STEP_STATUS_COLORS[result.status] }}>
+                            {result.status}
+                          </td>
+                          <td>{formatDuration(result.duration)}</td>
+                          <td>{result.matchedStrategy || '—'}</td>
+                          <td>
+                            {result.retries}
+                            {result.attempts !== undefined &&
+                              result.attempts > 1 &&
+                              ` (${result.attempts} attempts)`}
+                          </td>
+                          <td>
+                            {result.screenshotId && (
+                              <button
+                                className="btn btn-secondary btn-small"
+                                onClick={() => openScreenshots(run, i)}
+                                title="View screenshot"
+                              >
+                                📷
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {viewer && (
+        <ScreenshotViewer
+          frames={viewer.frames}
+          initialIndex={viewer.index}
+          onClose={() => setViewer(null)}
+        />
+      )}
+    </div>
+  );
+}
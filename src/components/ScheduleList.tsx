@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import type { Flow, FlowSchedule, MissedRunPolicy, PlaybackTarget, ScheduleKind } from '../types';
+import { generateId, getSchedules } from '../utils/storage';
+import { sendToBackground } from '../utils/messaging';
+import { describeSchedule, validateSchedule } from '../utils/schedule';
+
+interface ScheduleListProps {
+  flow: Flow;
+}
+
+const MISSED_RUN_LABELS: Record<MissedRunPolicy, string> = {
+  'run-once': 'Run once when the browser starts',
+  skip: 'Skip and note in history',
+};
+
+const TARGET_LABELS: Record<PlaybackTarget, string> = {
+  'background-tab': 'New background tab',
+  'new-window': 'New window',
+  'active-tab': 'Current tab',
+};
+
+// A new schedule with the form's defaults
+function createSchedule(flowId: string): FlowSchedule {
+  return {
+    id: generateId(),
+    flowId,
+    kind: 'interval',
+    intervalMinutes: 60,
+    cron: '0 9 * * 1-5',
+    enabled: true,
+    missedRuns: 'run-once',
+    target: 'background-tab',
+    nextRunAt: null,
+    createdAt: Date.now(),
+  };
+}
+
+export function ScheduleList({ flow }: ScheduleListProps) {
+  const [schedules, setSchedules] = useState<FlowSchedule[]>([]);
+  const [draft, setDraft] = useState<FlowSchedule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load schedules and refresh whenever they change in storage (e.g. after a scheduled run)
+  useEffect(() => {
+    const load = () => getSchedules(flow.id).then(setSchedules);
+    load();
+
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area === 'local' && changes.schedules) load();
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, [flow.id]);
+
+  // Send a schedule or deletion to the service worker, throwing when it fails
+  const send = async (type: 'SAVE_SCHEDULE' | 'DELETE_SCHEDULE', payload: unknown) => {
+    const response = await sendToBackground<{ success: boolean; error?: string }>(type, payload);
+    if (!response?.success) {
+      throw new Error(response?.error || 'No answer from the extension');
+    }
+  };
+
+  // The service worker computes the next run time and arms the alarm; timings it could not
+  // compute a run time for are not sent
+  const save = async (schedule: FlowSchedule) => {
+    const validationError = validateSchedule(schedule);
+    if (validationError) throw new Error(validationError);
+    await send('SAVE_SCHEDULE', schedule);
+  };
+
+  const handleAdd = async () => {
+    if (!draft) return;
+    try {
+      await save(draft);
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleToggle = async (schedule: FlowSchedule, enabled: boolean) => {
+    try {
+      await save({ ...schedule, enabled });
+    } catch (err) {
+      alert('Could not update the schedule: ' + (err as Error).message);
+    }
+  };
+
+  const handleDelete = async (scheduleId: string) => {
+    if (!confirm('Delete this schedule?')) return;
+    try {
+      await send('DELETE_SCHEDULE', { scheduleId });
+    } catch (err) {
+      alert('Could not delete the schedule: ' + (err as Error).message);
+    }
+  };
+
+  const updateDraft = (updates: Partial<FlowSchedule>) => {
+    if (draft) setDraft({ ...draft, ...updates });
+    setError(null);
+  };
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <h2 style={{ fontSize: '16px', fontWeight: '600' }}>Schedules ({schedules.length})</h2>
+        {!draft && (
+          <button
+            className="btn btn-secondary btn-small"
+            onClick={() => setDraft(createSchedule(flow.id))}
+          >
+            + Add Schedule
+          </button>
+        )}
+      </div>
+
+      {schedules.length === 0 && !draft && (
+        <p className="panel-hint">
+          Run this flow automatically at an interval or at times given by a cron expression.
+        </p>
+      )}
+
+      {schedules.length > 0 && (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>On</th>
+              <th>Runs</th>
+              <th>Next run</th>
+              <th>Last run</th>
+              <th>Missed runs</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {schedules.map((schedule) => (
+              <tr key={schedule.id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={schedule.enabled}
+                    onChange={(e) => handleToggle(schedule, e.target.checked)}
+                    title={schedule.enabled ? 'Disable schedule' : 'Enable schedule'}
+                  />
+                </td>
+                <td>
+                  {describeSchedule(schedule)}
+                  <div className="panel-hint">{TARGET_LABELS[schedule.target]}</div>
+                </td>
+                <td>
+                  {schedule.nextRunAt !== null
+                    ? new Date(schedule.nextRunAt).toLocaleString()
+                    : '—'}
+                </td>
+                <td>
+                  {schedule.lastRunAt ? new Date(schedule.lastRunAt).toLocaleString() : '—'}
+                  {schedule.lastError && (
+                    <div style={{ color: 'var(--danger)', fontSize: '12px' }}>
+                      {schedule.lastError}
+                    </div>
+                  )}
+                </td>
+                <td className="panel-hint">{MISSED_RUN_LABELS[schedule.missedRuns]}</td>
+                <td>
+                  <button
+                    className="btn btn-icon btn-danger"
+                    onClick={() => handleDelete(schedule.id)}
+                    title="Delete schedule"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {draft && (
+        <div style={{ marginTop: '12px' }}>
+          <div className="step-editor-grid">
+            <label className="step-editor-field">
+              <span>Repeat</span>
+              <select
+                className="input"
+                value={draft.kind}
+                onChange={(e) => updateDraft({ kind: e.target.value as ScheduleKind })}
+              >
+                <option value="interval">Every N minutes</option>
+                <option value="cron">Cron expression</option>
+              </select>
+            </label>
+            {draft.kind === 'interval' ? (
+              <label className="step-editor-field">
+                <span>Minutes</span>
+                <input
+                  type="number"
+                  className="input"
+                  min={1}
+                  value={draft.intervalMinutes ?? ''}
+                  onChange={(e) =>
+                    updateDraft({
+                      intervalMinutes: e.target.value === '' ? undefined : Number(e.target.value),
+                    })
+                  }
+                />
+              </label>
+            ) : (
+              <label className="step-editor-field">
+                <span>Cron (minute hour day month weekday)</span>
+                <input
+                  type="text"
+                  className="input"
+                  value={draft.cron ?? ''}
+                  onChange={(e) => updateDraft({ cron: e.target.value })}
+                />
+              </label>
+            )}
+            <label className="step-editor-field">
+              <span>Play in</span>
+              <select
+                className="input"
+                value={draft.target}
+                onChange={(e) => updateDraft({ target: e.target.value as PlaybackTarget })}
+              >
+                {Object.entries(TARGET_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="step-editor-field">
+              <span>Missed runs</span>
+              <select
+                className="input"
+                value={draft.missedRuns}
+                onChange={(e) => updateDraft({ missedRuns: e.target.value as MissedRunPolicy })}
+              >
+                {Object.entries(MISSED_RUN_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {draft.kind === 'cron' && (
+            <p className="panel-hint">
+              Local time. For example <code>0 9 * * 1-5</code> runs at 9:00 on weekdays and{' '}
+              <code>*/30 8-18 * * *</code> every 30 minutes during the day.
+            </p>
+          )}
+          {error && <p style={{ color: 'var(--danger)', fontSize: '12px' }}>{error}</p>}
+          <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+            <button className="btn btn-primary btn-small" onClick={handleAdd}>
+              Save Schedule
+            </button>
+            <button
+              className="btn btn-secondary btn-small"
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { getScreenshot } from '../utils/storage';
+
+export interface ScreenshotFrame {
+  screenshotId: string;
+  label: string;
+  failed: boolean;
+}
+
+interface ScreenshotViewerProps {
+  frames: ScreenshotFrame[];
+  initialIndex: number;
+  onClose: () => void;
+}
+
+export function ScreenshotViewer({ frames, initialIndex, onClose }: ScreenshotViewerProps) {
+  const [index, setIndex] = useState(initialIndex);
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  const frame = frames[index];
+
+  // Load the image of the current frame
+  useEffect(() => {
+    let cancelled = false;
+    setDataUrl(null);
+    setMissing(false);
+
+    getScreenshot(frame.screenshotId).then((url) => {
+      if (cancelled) return;
+      if (url) setDataUrl(url);
+      else setMissing(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [frame.screenshotId]);
+
+  // Arrow keys step through frames, Escape closes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') setIndex((i) => Math.max(0, i - 1));
+      if (e.key === 'ArrowRight') setIndex((i) => Math.min(frames.length - 1, i + 1));
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [frames.length, onClose]);
+
+  return (
+    <div className="screenshot-viewer" onClick={onClose}>
+      <div className="screenshot-viewer-content" onClick={(e) => e.stopPropagation()}>
+        <div className="panel-header">
+          <span style={{ color: frame.failed ? 'var(--danger)' : 'inherit', fontWeight: 500 }}>
+            {frame.label}
+          </span>
+          <span className="panel-hint">
+            {index + 1} / {frames.length}
+          </span>
+        </div>
+
+        <div className="screenshot-viewer-image">
+          {dataUrl && <img src={dataUrl} alt={frame.label} />}
+          {missing && <p className="panel-hint">Screenshot no longer available.</p>}
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', justifyContent: 'space-between' }}>
+          <button
+            className="btn btn-secondary btn-small"
+            onClick={() => setIndex(index - 1)}
+            disabled={index === 0}
+          >
+            ← Previous
+          </button>
+          <button className="btn btn-secondary btn-small" onClick={onClose}>
+            Close
+          </button>
+          <button
+            className="btn btn-secondary btn-small"
+            onClick={() => setIndex(index + 1)}
+            disabled={index === frames.length - 1}
+          >
+            Next →
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import type { Flow, SelectorCheck, SelectorCheckRequest } from '../types';
+import { sendToBackground } from '../utils/messaging';
+import { LOOP_ITEM_ATTRIBUTE, flattenSteps } from '../utils/blocks';
+import { applyVariables, getRowVariables } from '../utils/variables';
+
+interface SelectorValidatorProps {
+  flow: Flow;
+  checks: Record<string, SelectorCheck> | null;
+  onChecked: (checks: Record<string, SelectorCheck> | null) => void;
+}
+
+// Step targets that can be looked up on the page as it is now. Targets inside for-each loops
+// that point at the current loop element only exist while the loop runs.
+function getCheckableTargets(flow: Flow): SelectorCheckRequest[] {
+  const variables = getRowVariables(flow, 0);
+  return flattenSteps(flow.steps)
+    .filter((step) => step.target.css || step.target.xpath)
+    .filter((step) => !step.target.css.includes(LOOP_ITEM_ATTRIBUTE))
+    .map((step) => ({ stepId: step.id, target: applyVariables(step, variables).target }));
+}
+
+// Summary line of a validation pass
+function summarizeChecks(checks: SelectorCheck[]): string {
+  const found = checks.filter((c) => c.found);
+  const ambiguous = found.filter((c) => c.candidates > 1).length;
+  const hidden = found.filter((c) => !c.visible).length;
+  return [
+    `${found.length} of ${checks.length} targets found`,
+    ambiguous > 0 && `${ambiguous} ambiguous`,
+    hidden > 0 && `${hidden} not visible`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+export function SelectorValidator({ flow, checks, onChecked }: SelectorValidatorProps) {
+  const [tabs, setTabs] = useState<chrome.tabs.Tab[]>([]);
+  const [tabId, setTabId] = useState<number | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // List the web pages the targets can be looked up in
+  const loadTabs = async () => {
+    const allTabs = await chrome.tabs.query({});
+    const webTabs = allTabs.filter((t) => t.id && t.url && /^https?:/.test(t.url));
+    setTabs(webTabs);
+    setTabId((current) =>
+      current && webTabs.some((t) => t.id === current) ? current : (webTabs[0]?.id ?? null)
+    );
+  };
+
+  useEffect(() => {
+    loadTabs();
+  }, []);
+
+  const handleValidate = async () => {
+    if (!tabId) return;
+    setValidating(true);
+    setError(null);
+    try {
+      const response = await sendToBackground<{
+        success: boolean;
+        checks?: SelectorCheck[];
+        error?: string;
+      }>('VALIDATE_SELECTORS', { tabId, targets: getCheckableTargets(flow) });
+      if (!response?.success || !response.checks) {
+        throw new Error(response?.error || 'No answer from the page');
+      }
+      onChecked(Object.fromEntries(response.checks.map((c) => [c.stepId, c])));
+    } catch (err) {
+      setError('Could not validate: ' + (err as Error).message);
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  return (
+    <div className="panel" style={{ marginBottom: '12px' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center' }}>
+        <select
+          className="input"
+          value={tabId ?? ''}
+          onChange={(e) => setTabId(Number(e.target.value))}
+          onFocus={loadTabs}
+          style={{ flex: 1, minWidth: '180px' }}
+          disabled={validating}
+        >
+          {tabs.length === 0 && <option value="">No web pages open</option>}
+          {tabs.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.title || t.url}
+            </option>
+          ))}
+        </select>
+        <button
+          className="btn btn-primary btn-small"
+          onClick={handleValidate}
+          disabled={!tabId || validating}
+        >
+          {validating ? 'Validating...' : '✓ Validate Targets'}
+        </button>
+        {checks && (
+          <button className="btn btn-secondary btn-small" onClick={() => onChecked(null)}>
+            Clear Results
+          </button>
+        )}
+      </div>
+
+      <p className="panel-hint" style={{ marginTop: '8px' }}>
+        {checks
+          ? summarizeChecks(Object.values(checks))
+          : "Looks up every step's target in the page without acting on it, using the first data row for variables. Results show on the steps below."}
+      </p>
+      {error && <span className="step-editor-error">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import type { PlaybackState } from '../types';
+import { sendToBackground } from '../utils/messaging';
+import { getSettings, saveSettings } from '../utils/storage';
+import { formatStepPath } from '../utils/blocks';
+
+interface SessionListProps {
+  // Show nothing while no flow is playing
+  hideWhenIdle?: boolean;
+}
+
+// Progress summary of a running session
+function describeSession(session: PlaybackState): string {
+  const position =
+    session.frames.length > 0 ? `step ${formatStepPath(session.frames)}` : 'starting';
+  const row =
+    session.rowCount > 1 ? ` • row ${session.currentRowIndex + 1}/${session.rowCount}` : '';
+  if (session.captchaPause) return `Waiting for ${session.captchaPause.type} at ${position}${row}`;
+  return `${session.isPaused ? `Paused at ${position}` : `Playing ${position}`}${row}`;
+}
+
+export function SessionList({ hideWhenIdle }: SessionListProps) {
+  const [sessions, setSessions] = useState<PlaybackState[]>([]);
+  const [limit, setLimit] = useState<number | null>(null);
+
+  // Poll the running sessions
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const state = await sendToBackground<{ sessions: PlaybackState[] }>('GET_STATE');
+        setSessions(state.sessions.filter((s) => s.isPlaying));
+      } catch {
+        // Ignore polling errors
+      }
+    };
+    load();
+    getSettings().then((settings) => setLimit(settings.maxConcurrentSessions));
+
+    const interval = setInterval(load, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleLimitChange = async (value: number) => {
+    if (!Number.isInteger(value) || value < 1) return;
+    setLimit(value);
+    const settings = await getSettings();
+    await saveSettings({ ...settings, maxConcurrentSessions: value });
+  };
+
+  // Send a command for one session and update its entry right away
+  const sendCommand = async (
+    type: 'PAUSE_PLAYBACK' | 'RESUME_PLAYBACK' | 'STOP_PLAYBACK',
+    sessionId: string
+  ) => {
+    try {
+      await sendToBackground(type, { sessionId });
+      const state = await sendToBackground<{ sessions: PlaybackState[] }>('GET_STATE');
+      setSessions(state.sessions.filter((s) => s.isPlaying));
+    } catch (error) {
+      console.error('Session command failed:', error);
+    }
+  };
+
+  // Bring the tab a session plays in to the front
+  const handleShowTab = async (tabId: number | null) => {
+    if (tabId === null) return;
+    const tab = await chrome.tabs.update(tabId, { active: true });
+    if (tab?.windowId !== undefined) {
+      await chrome.windows.update(tab.windowId, { focused: true });
+    }
+  };
+
+  if (hideWhenIdle && sessions.length === 0) return null;
+
+  return (
+    <div className="flows-section">
+      <div className="panel-header">
+        <h2 style={{ marginBottom: 0 }}>
+          Running Flows ({sessions.length}
+          {limit !== null && `/${limit}`})
+        </h2>
+        {limit !== null && (
+          <label
+            className="panel-hint"
+            style={{ display: 'flex', alignItems: 'center', gap: '4px' }}
+          >
+            Max at once
+            <input
+              type="number"
+              className="input"
+              min={1}
+              value={limit}
+              onChange={(e) => handleLimitChange(Number(e.target.value))}
+              style={{ width: '56px' }}
+            />
+          </label>
+        )}
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="flow-list-empty">
+          <p>No flows are playing.</p>
+        </div>
+      ) : (
+        <div className="flow-list">
+          {sessions.map((session) => (
+            <div key={session.sessionId} className="flow-item">
+              <div className="flow-info">
+                <h3 className="flow-name">{session.flowName}</h3>
+                <p className="flow-meta">{describeSession(session)}</p>
+              </div>
+              <div className="flow-actions">
+                <button
+                  className="btn btn-icon"
+                  onClick={() => handleShowTab(session.tabId)}
+                  title="Show tab"
+                >
+                  ⧉
+                </button>
+                {session.isPaused ? (
+                  <button
+                    className="btn btn-icon"
+                    onClick={() => sendCommand('RESUME_PLAYBACK', session.sessionId)}
+                    title="Resume"
+                  >
+                    ▶
+                  </button>
+                ) : (
+                  <button
+                    className="btn btn-icon"
+                    onClick={() => sendCommand('PAUSE_PLAYBACK', session.sessionId)}
+                    title="Pause"
+                  >
+                    ⏸
+                  </button>
+                )}
+                <button
+                  className="btn btn-icon btn-danger"
+                  onClick={() => sendCommand('STOP_PLAYBACK', session.sessionId)}
+                  title="Stop"
+                >
+                  ⏹
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
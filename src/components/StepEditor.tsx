@@ -0,0 +1,947 @@
+import { useState } from 'react';
+import type {
+  AssertionKind,
+  AssertionOperator,
+  ConditionKind,
+  DialogKind,
+  DialogRecord,
+  ExtractSource,
+  Flow,
+  LoopKind,
+  RecordedStep,
+  StepType,
+} from '../types';
+import { getStepDescription } from '../utils/steps';
+import { getFlowVariableNames } from '../utils/variables';
+import { describeCandidate } from '../utils/selectors';
+import { isValidCssSelector, isValidXPath } from '../utils/locator';
+import { PolicyFields, validatePolicy } from './PolicyFields';
+import { TypingFields, validateTyping } from './TypingFields';
+import {
+  DEFAULT_LOOP_VARIABLE,
+  DEFAULT_MAX_LOOP_ITERATIONS,
+  flattenSteps,
+  getLoopItemSelector,
+  getLoopVariable,
+} from '../utils/blocks';
+
+interface StepEditorProps {
+  step: RecordedStep;
+  // Saved flows a run-flow step can call
+  flows?: Flow[];
+  onSave: (step: RecordedStep) => void;
+  onCancel: () => void;
+}
+
+const STEP_TYPES: StepType[] = [
+  'click',
+  'input',
+  'select',
+  'keypress',
+  'scroll',
+  'navigation',
+  'wait',
+  'assert',
+  'condition',
+  'loop',
+  'run-flow',
+  'extract',
+  'dialog',
+];
+
+const ASSERTION_KINDS: AssertionKind[] = [
+  'exists',
+  'visible',
+  'text',
+  'attribute',
+  'value',
+  'count',
+  'url',
+  'title',
+];
+
+const CONDITION_KINDS: ConditionKind[] = ['exists', 'visible', 'text', 'url'];
+
+const LOOP_KINDS: { value: LoopKind; label: string }[] = [
+  { value: 'repeat', label: 'Repeat N times' },
+  { value: 'while', label: 'While element exists' },
+  { value: 'for-each', label: 'For each matching element' },
+];
+
+const EXTRACT_SOURCES: { value: ExtractSource; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'attribute', label: 'Attribute' },
+  { value: 'value', label: 'Input value' },
+  { value: 'table', label: 'Table rows' },
+];
+
+const DIALOG_KINDS: { value: DialogKind; label: string }[] = [
+  { value: 'alert', label: 'Alert' },
+  { value: 'confirm', label: 'Confirm' },
+  { value: 'prompt', label: 'Prompt' },
+  { value: 'beforeunload', label: 'Leave page (beforeunload)' },
+];
+
+const DEFAULT_DIALOG: DialogRecord = { kind: 'alert', message: '', response: { action: 'accept' } };
+
+// Step types that act on a target element
+const ELEMENT_STEP_TYPES: StepType[] = [
+  'click',
+  'input',
+  'select',
+  'keypress',
+  'assert',
+  'condition',
+  'loop',
+  'extract',
+];
+
+// Step types that carry a value
+const VALUE_STEP_TYPES: StepType[] = ['input', 'select', 'keypress'];
+
+// Parse an optional integer field, keeping undefined for empty input
+function parseOptionalNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+// Whether any policy field of a step overrides the flow-level policy
+function hasPolicyOverrides(step: RecordedStep): boolean {
+  return Object.values(step.policy || {}).some((value) => value !== undefined);
+}
+
+// Whether any typing field of a step overrides the flow's typing setting
+function hasTypingOverrides(step: RecordedStep): boolean {
+  return Object.values(step.typing || {}).some((value) => value !== undefined);
+}
+
+// Validate a draft step, returning field errors keyed by field name
+function validateStep(step: RecordedStep, attributesJson: string): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (step.target.css && !isValidCssSelector(step.target.css)) {
+    errors.css = 'Invalid CSS selector';
+  }
+  if (step.target.xpath && !isValidXPath(step.target.xpath)) {
+    errors.xpath = 'Invalid XPath expression';
+  }
+  if (isNaN(step.delay) || step.delay < 0) {
+    errors.delay = 'Delay must be a non-negative number';
+  }
+
+  try {
+    const attributes = JSON.parse(attributesJson || '{}');
+    if (
+      !attributes ||
+      typeof attributes !== 'object' ||
+      Array.isArray(attributes) ||
+      Object.values(attributes).some((v) => typeof v !== 'string')
+    ) {
+      errors.attributes = 'Attributes must be a JSON object of strings';
+    }
+  } catch {
+    errors.attributes = 'Invalid JSON';
+  }
+
+  if (
+    step.condition?.timeout !== undefined &&
+    (isNaN(step.condition.timeout) || step.condition.timeout < 0)
+  ) {
+    errors.conditionTimeout = 'Wait must be a non-negative number';
+  }
+
+  if (step.type === 'loop') {
+    const { count, maxIterations, variable } = step.loop || {};
+    if (
+      step.loop?.kind === 'repeat' &&
+      (count === undefined || !Number.isInteger(count) || count < 0)
+    ) {
+      errors.loopCount = 'Count must be a non-negative whole number';
+    }
+    if (maxIterations !== undefined && (!Number.isInteger(maxIterations) || maxIterations < 1)) {
+      errors.loopMaxIterations = 'Max iterations must be a positive whole number';
+    }
+    if (variable && !/^[\w-]+$/.test(variable)) {
+      errors.loopVariable = 'Use letters, digits, - and _ only';
+    }
+  }
+
+  if (step.type === 'extract') {
+    const { source, attribute, variable } = step.extract || {};
+    if (!variable) {
+      errors.extractVariable = 'Name the variable to store the value in';
+    } else if (!/^[\w.-]+$/.test(variable)) {
+      errors.extractVariable = 'Use letters, digits, -, _ and . only';
+    }
+    if (source === 'attribute' && !attribute) {
+      errors.extractAttribute = 'Enter an attribute name';
+    }
+  }
+
+  if (step.type === 'run-flow' && !step.subFlow?.flowId) {
+    errors.subFlow = 'Choose a flow to run';
+  }
+
+  if (step.type === 'navigation' && !step.url) {
+    errors.url = 'Navigation steps need a URL';
+  }
+
+  const policyError = validatePolicy(step.policy || {});
+  if (policyError) {
+    errors.policy = policyError;
+  }
+
+  const typingError = validateTyping(step.typing || {});
+  if (typingError) {
+    errors.typing = typingError;
+  }
+
+  return errors;
+}
+
+export function StepEditor({ step, flows = [], onSave, onCancel }: StepEditorProps) {
+  const [draft, setDraft] = useState<RecordedStep>(step);
+  const [attributesJson, setAttributesJson] = useState(
+    JSON.stringify(step.target.attributes, null, 2)
+  );
+
+  const errors = validateStep(draft, attributesJson);
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const update = (updates: Partial<RecordedStep>) => {
+    setDraft((prev) => ({ ...prev, ...updates }));
+  };
+
+  const updateTarget = (updates: Partial<RecordedStep['target']>) => {
+    setDraft((prev) => ({ ...prev, target: { ...prev.target, ...updates } }));
+  };
+
+  // Candidates were recorded for the old selectors and would be tried before the edited ones
+  const updateSelector = (updates: Pick<Partial<RecordedStep['target']>, 'css' | 'xpath'>) => {
+    updateTarget({ ...updates, candidates: undefined });
+  };
+
+  // Pin a candidate so playback tries it first, or unpin it (at most one is pinned)
+  const togglePinned = (index: number) => {
+    const candidates = draft.target.candidates ?? [];
+    const pin = !candidates[index].pinned;
+    updateTarget({
+      candidates: candidates.map((c, i) => ({
+        ...c,
+        pinned: i === index && pin ? true : undefined,
+      })),
+    });
+  };
+
+  const removeCandidate = (index: number) => {
+    const candidates = (draft.target.candidates ?? []).filter((_, i) => i !== index);
+    updateTarget({ candidates: candidates.length > 0 ? candidates : undefined });
+  };
+
+  const updateCondition = (updates: Partial<NonNullable<RecordedStep['condition']>>) => {
+    setDraft((prev) => ({
+      ...prev,
+      condition: { kind: 'exists', ...prev.condition, ...updates },
+    }));
+  };
+
+  const updateLoop = (updates: Partial<NonNullable<RecordedStep['loop']>>) => {
+    setDraft((prev) => ({
+      ...prev,
+      loop: { kind: 'repeat', ...prev.loop, ...updates },
+    }));
+  };
+
+  const updateExtract = (updates: Partial<NonNullable<RecordedStep['extract']>>) => {
+    setDraft((prev) => ({
+      ...prev,
+      extract: { source: 'text', variable: '', ...prev.extract, ...updates },
+    }));
+  };
+
+  const updateDialog = (updates: Partial<DialogRecord>) => {
+    setDraft((prev) => ({ ...prev, dialog: { ...DEFAULT_DIALOG, ...prev.dialog, ...updates } }));
+  };
+
+  const updateBinding = (name: string, value: string) => {
+    setDraft((prev) => {
+      const bindings = { ...prev.subFlow?.bindings };
+      if (value) bindings[name] = value;
+      else delete bindings[name];
+      return { ...prev, subFlow: { flowId: prev.subFlow?.flowId ?? '', bindings } };
+    });
+  };
+
+  const updateAssertion = (updates: Partial<NonNullable<RecordedStep['assertion']>>) => {
+    setDraft((prev) => ({
+      ...prev,
+      assertion: { kind: 'exists', ...prev.assertion, ...updates },
+    }));
+  };
+
+  const handleSave = () => {
+    if (hasErrors) return;
+    onSave({
+      ...draft,
+      description: draft.description?.trim() || undefined,
+      policy: hasPolicyOverrides(draft) ? draft.policy : undefined,
+      typing: hasTypingOverrides(draft) ? draft.typing : undefined,
+      assertion:
+        draft.type === 'assert' ? (draft.assertion ?? { kind: 'exists' }) : draft.assertion,
+      condition:
+        draft.type === 'condition' ? (draft.condition ?? { kind: 'exists' }) : draft.condition,
+      loop: draft.type === 'loop' ? (draft.loop ?? { kind: 'repeat', count: 1 }) : draft.loop,
+      dialog: draft.type === 'dialog' ? (draft.dialog ?? DEFAULT_DIALOG) : draft.dialog,
+      target: { ...draft.target, attributes: JSON.parse(attributesJson || '{}') },
+    });
+  };
+
+  const field = (label: string, input: React.ReactNode, error?: string) => (
+    <label className="step-editor-field">
+      <span>{label}</span>
+      {input}
+      {error && <span className="step-editor-error">{error}</span>}
+    </label>
+  );
+
+  const showTarget =
+    ELEMENT_STEP_TYPES.includes(draft.type) &&
+    !(draft.type === 'condition' && draft.condition?.kind === 'url') &&
+    !(draft.type === 'loop' && (draft.loop?.kind ?? 'repeat') === 'repeat');
+  const loopVariable = getLoopVariable(draft);
+  const calledFlow =
+    draft.type === 'run-flow' ? flows.find((f) => f.id === draft.subFlow?.flowId) : undefined;
+  const calledVariables = calledFlow ? getFlowVariableNames(calledFlow) : [];
+  // Changing the type of a block would hide its nested steps
+  const hasNestedSteps = flattenSteps([step]).length > 1;
+
+  return (
+    <div className="step-editor" onClick={(e) => e.stopPropagation()}>
+      <div className="step-editor-grid">
+        {field(
+          'Type',
+          <select
+            className="input"
+            value={draft.type}
+            disabled={hasNestedSteps}
+            onChange={(e) => update({ type: e.target.value as StepType })}
+          >
+            {STEP_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {field(
+          'Delay (ms)',
+          <input
+            type="number"
+            className="input"
+            min={0}
+            value={draft.delay}
+            onChange={(e) => update({ delay: Number(e.target.value) })}
+          />,
+          errors.delay
+        )}
+
+        {VALUE_STEP_TYPES.includes(draft.type) &&
+          field(
+            draft.type === 'keypress' ? 'Key' : 'Value',
+            <input
+              type="text"
+              className="input"
+              value={draft.value ?? ''}
+              onChange={(e) => update({ value: e.target.value })}
+            />
+          )}
+
+        {draft.type === 'navigation' &&
+          field(
+            'URL',
+            <input
+              type="text"
+              className="input"
+              value={draft.url ?? ''}
+              onChange={(e) => update({ url: e.target.value })}
+            />,
+            errors.url
+          )}
+
+        {draft.type === 'click' && (
+          <>
+            {field(
+              'Click X',
+              <input
+                type="number"
+                className="input"
+                value={draft.position?.x ?? ''}
+                onChange={(e) => {
+                  const x = parseOptionalNumber(e.target.value);
+                  update({
+                    position: x === undefined ? undefined : { x, y: draft.position?.y ?? 0 },
+                  });
+                }}
+              />
+            )}
+            {field(
+              'Click Y',
+              <input
+                type="number"
+                className="input"
+                value={draft.position?.y ?? ''}
+                onChange={(e) => {
+                  const y = parseOptionalNumber(e.target.value);
+                  update({
+                    position: y === undefined ? undefined : { x: draft.position?.x ?? 0, y },
+                  });
+                }}
+              />
+            )}
+          </>
+        )}
+
+        {draft.type === 'scroll' && (
+          <>
+            {field(
+              'Scroll X',
+              <input
+                type="number"
+                className="input"
+                value={draft.scrollPosition?.x ?? 0}
+                onChange={(e) =>
+                  update({
+                    scrollPosition: {
+                      x: Number(e.target.value),
+                      y: draft.scrollPosition?.y ?? 0,
+                    },
+                  })
+                }
+              />
+            )}
+            {field(
+              'Scroll Y',
+              <input
+                type="number"
+                className="input"
+                value={draft.scrollPosition?.y ?? 0}
+                onChange={(e) =>
+                  update({
+                    scrollPosition: {
+                      x: draft.scrollPosition?.x ?? 0,
+                      y: Number(e.target.value),
+                    },
+                  })
+                }
+              />
+            )}
+          </>
+        )}
+
+        {draft.type === 'assert' && (
+          <>
+            {field(
+              'Assertion',
+              <select
+                className="input"
+                value={draft.assertion?.kind ?? 'exists'}
+                onChange={(e) => updateAssertion({ kind: e.target.value as AssertionKind })}
+              >
+                {ASSERTION_KINDS.map((k) => (
+                  <option key={k} value={k}>
+                    {k}
+                  </option>
+                ))}
+              </select>
+            )}
+            {field(
+              'Operator',
+              <select
+                className="input"
+                value={draft.assertion?.operator ?? 'equals'}
+                onChange={(e) => updateAssertion({ operator: e.target.value as AssertionOperator })}
+              >
+                <option value="equals">equals</option>
+                <option value="contains">contains</option>
+                <option value="matches">matches regex</option>
+              </select>
+            )}
+            {field(
+              'Expected',
+              <input
+                type="text"
+                className="input"
+                value={draft.assertion?.expected ?? ''}
+                onChange={(e) => updateAssertion({ expected: e.target.value })}
+              />
+            )}
+            {draft.assertion?.kind === 'attribute' &&
+              field(
+                'Attribute',
+                <input
+                  type="text"
+                  className="input"
+                  value={draft.assertion?.attribute ?? ''}
+                  onChange={(e) => updateAssertion({ attribute: e.target.value })}
+                />
+              )}
+          </>
+        )}
+        {draft.type === 'condition' && (
+          <>
+            {field(
+              'Condition',
+              <select
+                className="input"
+                value={draft.condition?.kind ?? 'exists'}
+                onChange={(e) => updateCondition({ kind: e.target.value as ConditionKind })}
+              >
+                {CONDITION_KINDS.map((k) => (
+                  <option key={k} value={k}>
+                    {k}
+                  </option>
+                ))}
+              </select>
+            )}
+            {(draft.condition?.kind === 'text' || draft.condition?.kind === 'url') && (
+              <>
+                {field(
+                  'Operator',
+                  <select
+                    className="input"
+                    value={draft.condition?.operator ?? 'equals'}
+                    onChange={(e) =>
+                      updateCondition({ operator: e.target.value as AssertionOperator })
+                    }
+                  >
+                    <option value="equals">equals</option>
+                    <option value="contains">contains</option>
+                    <option value="matches">matches regex</option>
+                  </select>
+                )}
+                {field(
+                  'Expected',
+                  <input
+                    type="text"
+                    className="input"
+                    value={draft.condition?.expected ?? ''}
+                    onChange={(e) => updateCondition({ expected: e.target.value })}
+                  />
+                )}
+              </>
+            )}
+            {field(
+              'Wait up to (ms)',
+              <input
+                type="number"
+                className="input"
+                min={0}
+                placeholder="0"
+                value={draft.condition?.timeout ?? ''}
+                onChange={(e) => updateCondition({ timeout: parseOptionalNumber(e.target.value) })}
+              />,
+              errors.conditionTimeout
+            )}
+            <label className="step-editor-field">
+              <span>Negate</span>
+              <input
+                type="checkbox"
+                checked={!!draft.condition?.negate}
+                onChange={(e) => updateCondition({ negate: e.target.checked || undefined })}
+              />
+            </label>
+          </>
+        )}
+        {draft.type === 'loop' && (
+          <>
+            {field(
+              'Loop',
+              <select
+                className="input"
+                value={draft.loop?.kind ?? 'repeat'}
+                onChange={(e) => updateLoop({ kind: e.target.value as LoopKind })}
+              >
+                {LOOP_KINDS.map((k) => (
+                  <option key={k.value} value={k.value}>
+                    {k.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            {(draft.loop?.kind ?? 'repeat') === 'repeat' &&
+              field(
+                'Count',
+                <input
+                  type="number"
+                  className="input"
+                  min={0}
+                  value={draft.loop?.count ?? ''}
+                  onChange={(e) => updateLoop({ count: parseOptionalNumber(e.target.value) })}
+                />,
+                errors.loopCount
+              )}
+            {field(
+              'Max iterations',
+              <input
+                type="number"
+                className="input"
+                min={1}
+                placeholder={String(DEFAULT_MAX_LOOP_ITERATIONS)}
+                value={draft.loop?.maxIterations ?? ''}
+                onChange={(e) => updateLoop({ maxIterations: parseOptionalNumber(e.target.value) })}
+              />,
+              errors.loopMaxIterations
+            )}
+            {field(
+              'Variable',
+              <input
+                type="text"
+                className="input"
+                placeholder={DEFAULT_LOOP_VARIABLE}
+                value={draft.loop?.variable ?? ''}
+                onChange={(e) => updateLoop({ variable: e.target.value || undefined })}
+              />,
+              errors.loopVariable
+            )}
+          </>
+        )}
+        {draft.type === 'extract' && (
+          <>
+            {field(
+              'Extract',
+              <select
+                className="input"
+                value={draft.extract?.source ?? 'text'}
+                onChange={(e) => updateExtract({ source: e.target.value as ExtractSource })}
+              >
+                {EXTRACT_SOURCES.map((s) => (
+                  <option key={s.value} value={s.value}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            {draft.extract?.source === 'attribute' &&
+              field(
+                'Attribute',
+                <input
+                  type="text"
+                  className="input"
+                  value={draft.extract.attribute ?? ''}
+                  onChange={(e) => updateExtract({ attribute: e.target.value })}
+                />,
+                errors.extractAttribute
+              )}
+            {field(
+              'Into variable',
+              <input
+                type="text"
+                className="input"
+                value={draft.extract?.variable ?? ''}
+                onChange={(e) => updateExtract({ variable: e.target.value })}
+              />,
+              errors.extractVariable
+            )}
+          </>
+        )}
+        {draft.type === 'dialog' && (
+          <>
+            {field(
+              'Dialog',
+              <select
+                className="input"
+                value={draft.dialog?.kind ?? 'alert'}
+                onChange={(e) => updateDialog({ kind: e.target.value as DialogKind })}
+              >
+                {DIALOG_KINDS.map((k) => (
+                  <option key={k.value} value={k.value}>
+                    {k.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            {draft.dialog &&
+              draft.dialog.kind !== 'alert' &&
+              field(
+                'Answer',
+                <select
+                  className="input"
+                  value={draft.dialog.response.action}
+                  onChange={(e) =>
+                    updateDialog({
+                      response: { action: e.target.value as 'accept' | 'dismiss' },
+                    })
+                  }
+                >
+                  <option value="accept">
+                    {draft.dialog.kind === 'beforeunload' ? 'Leave page' : 'OK'}
+                  </option>
+                  <option value="dismiss">
+                    {draft.dialog.kind === 'beforeunload' ? 'Stay on page' : 'Cancel'}
+                  </option>
+                </select>
+              )}
+            {draft.dialog?.kind === 'prompt' &&
+              draft.dialog.response.action === 'accept' &&
+              field(
+                'Prompt text',
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="Prompt's default value"
+                  value={draft.dialog.response.promptText ?? ''}
+                  onChange={(e) =>
+                    updateDialog({
+                      response: { action: 'accept', promptText: e.target.value || undefined },
+                    })
+                  }
+                />
+              )}
+            {field(
+              'Message',
+              <input
+                type="text"
+                className="input"
+                value={draft.dialog?.message ?? ''}
+                onChange={(e) => updateDialog({ message: e.target.value })}
+              />
+            )}
+          </>
+        )}
+        {draft.type === 'run-flow' &&
+          field(
+            'Flow',
+            <select
+              className="input"
+              value={draft.subFlow?.flowId ?? ''}
+              onChange={(e) => update({ subFlow: { flowId: e.target.value } })}
+            >
+              <option value="">Select a flow...</option>
+              {flows.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>,
+            errors.subFlow
+          )}
+      </div>
+
+      {calledFlow && (
+        <p className="panel-hint">
+          The steps of {calledFlow.name} run in the current tab; its start URL is not opened.
+        </p>
+      )}
+
+      {calledFlow && calledVariables.length > 0 && (
+        <>
+          <h4 className="step-editor-section">Variables passed to the flow</h4>
+          <p className="panel-hint">
+            Values can use {'{{placeholders}}'} of this flow; empty fields keep the default of the
+            called flow.
+          </p>
+          <div className="step-editor-grid">
+            {calledVariables.map((name) => (
+              <label key={name} className="step-editor-field">
+                <span>{name}</span>
+                <input
+                  type="text"
+                  className="input"
+                  placeholder={calledFlow.variables?.[name] ?? ''}
+                  value={draft.subFlow?.bindings?.[name] ?? ''}
+                  onChange={(e) => updateBinding(name, e.target.value)}
+                />
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+
+      {draft.type === 'loop' && (
+        <p className="panel-hint">
+          Steps inside the loop can use {`{{${loopVariable}.index}}`}
+          {draft.loop?.kind === 'for-each' && (
+            <>
+              {' '}
+              and {`{{${loopVariable}.text}}`}, and target the current element with{' '}
+              <code>{getLoopItemSelector(draft)}</code>
+            </>
+          )}
+          .
+        </p>
+      )}
+
+      {draft.type === 'extract' && draft.extract?.variable && (
+        <p className="panel-hint">
+          Later steps can use the value as {`{{${draft.extract.variable}}}`}
+          {draft.extract.source === 'table' && ' (the table rows as JSON)'}. Run history lists
+          extracted values and exports them as CSV or JSON.
+        </p>
+      )}
+
+      {draft.type === 'dialog' && (
+        <p className="panel-hint">
+          Playback gives this answer to the dialog when the step before opens it, and fails this
+          step when no such dialog opens within the step timeout. The message is for reference only.
+          {draft.dialog?.kind === 'beforeunload' &&
+            ' Staying on the page cannot be forced: the browser only asks when the page was interacted with.'}
+        </p>
+      )}
+
+      {field(
+        'Description',
+        <input
+          type="text"
+          className="input"
+          placeholder="Optional note about this step"
+          value={draft.description ?? ''}
+          onChange={(e) => update({ description: e.target.value })}
+        />
+      )}
+
+      {showTarget && (
+        <>
+          <h4 className="step-editor-section">Target</h4>
+          <div className="step-editor-grid">
+            {field(
+              'Tag name',
+              <input
+                type="text"
+                className="input"
+                value={draft.target.tagName}
+                onChange={(e) => updateTarget({ tagName: e.target.value })}
+              />
+            )}
+            {field(
+              'Text',
+              <input
+                type="text"
+                className="input"
+                value={draft.target.text ?? ''}
+                onChange={(e) => updateTarget({ text: e.target.value || undefined })}
+              />
+            )}
+          </div>
+          {field(
+            'CSS selector',
+            <input
+              type="text"
+              className="input"
+              value={draft.target.css}
+              onChange={(e) => updateSelector({ css: e.target.value })}
+            />,
+            errors.css
+          )}
+          {field(
+            'XPath',
+            <input
+              type="text"
+              className="input"
+              value={draft.target.xpath}
+              onChange={(e) => updateSelector({ xpath: e.target.value })}
+            />,
+            errors.xpath
+          )}
+          {field(
+            'Attributes (JSON)',
+            <textarea
+              className="input"
+              rows={4}
+              value={attributesJson}
+              onChange={(e) => setAttributesJson(e.target.value)}
+            />,
+            errors.attributes
+          )}
+          {draft.target.candidates && (
+            <>
+              <h4 className="step-editor-section">Selector candidates</h4>
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    <th>Strategy</th>
+                    <th>Selector</th>
+                    <th>Matches</th>
+                    <th>Score</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {draft.target.candidates.map((candidate, i) => (
+                    <tr key={i}>
+                      <td>{i + 1}</td>
+                      <td>{candidate.strategy}</td>
+                      <td>
+                        <code>{describeCandidate(candidate)}</code>
+                      </td>
+                      <td>{candidate.matches === 1 ? 'unique' : candidate.matches}</td>
+                      <td>{candidate.score}</td>
+                      <td style={{ whiteSpace: 'nowrap' }}>
+                        <button
+                          className="btn btn-icon"
+                          onClick={() => togglePinned(i)}
+                          title={candidate.pinned ? 'Unpin' : 'Pin: always try this one first'}
+                          style={{ opacity: candidate.pinned ? 1 : 0.4 }}
+                        >
+                          📌
+                        </button>
+                        <button
+                          className="btn btn-icon btn-danger"
+                          onClick={() => removeCandidate(i)}
+                          title="Remove candidate"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="panel-hint">
+                Recorded with the step and ranked by uniqueness and stability. Playback tries the
+                pinned candidate, then the others in order, using the first that finds exactly one
+                element; the CSS selector and XPath above are tried after them. Editing the CSS
+                selector or XPath removes the candidates.
+              </p>
+            </>
+          )}
+        </>
+      )}
+
+      {draft.type === 'input' && (
+        <>
+          <h4 className="step-editor-section">Typing</h4>
+          <div className="step-editor-grid">
+            <TypingFields
+              typing={draft.typing || {}}
+              onChange={(typing) => update({ typing })}
+              allowInherit
+            />
+          </div>
+          {errors.typing && <span className="step-editor-error">{errors.typing}</span>}
+        </>
+      )}
+
+      <h4 className="step-editor-section">Timeouts &amp; retries</h4>
+      <PolicyFields
+        policy={draft.policy || {}}
+        onChange={(policy) => update({ policy })}
+        allowInherit
+      />
+      {errors.policy && <span className="step-editor-error">{errors.policy}</span>}
+
+      <p className="step-editor-preview">Preview: {getStepDescription(draft, flows)}</p>
+
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+        <button className="btn btn-secondary btn-small" onClick={onCancel}>
+          Cancel
+        </button>
+        <button className="btn btn-primary btn-small" onClick={handleSave} disabled={hasErrors}>
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
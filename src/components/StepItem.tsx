@@ -1,94 +1,138 @@
-import type { RecordedStep } from '../types';
+import { useState } from 'react';
+import type { Flow, RecordedStep, SelectorCheck } from '../types';
+import { getStepDescription, getStepIcon } from '../utils/steps';
+import { StepEditor } from './StepEditor';
 
 interface StepItemProps {
   step: RecordedStep;
   index: number;
   isDragging: boolean;
+  isSelected?: boolean;
+  isCurrent?: boolean;
+  isCollapsed?: boolean;
+  onToggleCollapse?: () => void;
+  onSelect?: () => void;
   onDragStart: () => void;
   onDragOver: (e: React.DragEvent) => void;
   onDragEnd: () => void;
   onDelete: () => void;
+  onSave?: (step: RecordedStep) => void;
+  flows?: Flow[];
+  selectorCheck?: SelectorCheck;
 }
 
-function getStepDescription(step: RecordedStep): string {
-  switch (step.type) {
-    case 'click':
-      return `Click on ${step.target.tagName}${step.target.text ? ` "${step.target.text.substring(0, 30)}"` : ''}`;
-    case 'input':
-      return `Type "${step.value?.substring(0, 30) || ''}" into ${step.target.tagName}`;
-    case 'select':
-      return `Select "${step.value || ''}" in ${step.target.tagName}`;
-    case 'scroll':
-      return `Scroll to position (${step.scrollPosition?.x || 0}, ${step.scrollPosition?.y || 0})`;
-    case 'keypress':
-      return `Press ${step.value} key`;
-    case 'navigation':
-      return `Navigate to ${step.url?.substring(0, 50) || 'page'}`;
-    case 'wait':
-      return `Wait ${step.delay}ms`;
-    default:
-      return step.type;
-  }
-}
-
-function getStepIcon(type: string): string {
-  switch (type) {
-    case 'click':
-      return '👆';
-    case 'input':
-      return '⌨️';
-    case 'select':
-      return '📋';
-    case 'scroll':
-      return '📜';
-    case 'keypress':
-      return '⌨️';
-    case 'navigation':
-      return '🌐';
-    case 'wait':
-      return '⏱️';
-    default:
-      return '•';
-  }
+// Inline result of a dry-run validation; several matches are not a problem for for-each loops,
+// which act on every element their selector finds
+function describeSelectorCheck(
+  step: RecordedStep,
+  check: SelectorCheck
+): { text: string; status: 'ok' | 'warn' | 'error' } {
+  if (!check.found) return { text: 'Target not found', status: 'error' };
+  const notes = [`Found via ${check.matchedStrategy}`];
+  const ambiguous = check.candidates > 1 && step.loop?.kind !== 'for-each';
+  if (ambiguous) notes.push(`ambiguous (${check.candidates} candidates)`);
+  if (!check.visible) notes.push('not visible');
+  return { text: notes.join(', '), status: ambiguous || !check.visible ? 'warn' : 'ok' };
 }
 
 export function StepItem({
   step,
   index,
   isDragging,
+  isSelected,
+  isCurrent,
+  isCollapsed,
+  onToggleCollapse,
+  onSelect,
   onDragStart,
   onDragOver,
   onDragEnd,
   onDelete,
+  onSave,
+  flows,
+  selectorCheck,
 }: StepItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const check = selectorCheck && describeSelectorCheck(step, selectorCheck);
+
   return (
-    <div
-      className={`step-item ${isDragging ? 'dragging' : ''}`}
-      draggable
-      onDragStart={onDragStart}
-      onDragOver={onDragOver}
-      onDragEnd={onDragEnd}
-    >
-      <span className="step-number">{index + 1}</span>
-      <span style={{ fontSize: '18px' }}>{getStepIcon(step.type)}</span>
-      <div className="step-info">
-        <div className="step-type">{step.type}</div>
-        <div className="step-details">{getStepDescription(step)}</div>
-      </div>
-      <div className="step-actions">
-        <button
-          className="btn btn-icon btn-danger"
+    <div>
+      <div
+        className={`step-item ${isDragging ? 'dragging' : ''} ${isSelected ? 'selected' : ''} ${isCurrent ? 'current' : ''}`}
+        draggable={!isEditing}
+        onClick={onSelect}
+        onDragStart={onDragStart}
+        onDragOver={onDragOver}
+        onDragEnd={onDragEnd}
+      >
+        <span
+          className={`step-number ${step.breakpoint ? 'breakpoint' : ''}`}
           onClick={(e) => {
+            if (!onSave) return;
             e.stopPropagation();
-            if (confirm('Delete this step?')) {
-              onDelete();
-            }
+            onSave({ ...step, breakpoint: !step.breakpoint || undefined });
           }}
-          title="Delete step"
+          title={onSave ? (step.breakpoint ? 'Remove breakpoint' : 'Add breakpoint') : undefined}
         >
-          ✕
-        </button>
+          {index + 1}
+        </span>
+        {onToggleCollapse && (
+          <button
+            className="btn btn-icon"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapse();
+            }}
+            title={isCollapsed ? 'Expand block' : 'Collapse block'}
+          >
+            {isCollapsed ? '▸' : '▾'}
+          </button>
+        )}
+        <span style={{ fontSize: '18px' }}>{getStepIcon(step.type)}</span>
+        <div className="step-info">
+          <div className="step-type">{step.type}</div>
+          {step.description && <div className="step-description">{step.description}</div>}
+          <div className="step-details">{getStepDescription(step, flows)}</div>
+          {check && <div className={`step-check ${check.status}`}>{check.text}</div>}
+        </div>
+        <div className="step-actions">
+          {onSave && (
+            <button
+              className="btn btn-icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsEditing(!isEditing);
+              }}
+              title={isEditing ? 'Close editor' : 'Edit step'}
+            >
+              {isEditing ? '▴' : '✎'}
+            </button>
+          )}
+          <button
+            className="btn btn-icon btn-danger"
+            onClick={(e) => {
+              e.stopPropagation();
+              if (confirm('Delete this step?')) {
+                onDelete();
+              }
+            }}
+            title="Delete step"
+          >
+            ✕
+          </button>
+        </div>
       </div>
+      {isEditing && onSave && (
+        <StepEditor
+          step={step}
+          flows={flows}
+          onSave={(updated) => {
+            onSave(updated);
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      )}
     </div>
   );
 }
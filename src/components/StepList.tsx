@@ -1,15 +1,45 @@
-import { useState } from 'react';
-import type { RecordedStep } from '../types';
+import { Fragment, useState } from 'react';
+import type { Flow, RecordedStep, SelectorCheck, StepBranch } from '../types';
+import { getBranchSteps, getStepBranches, setBranchSteps } from '../utils/blocks';
 import { StepItem } from './StepItem';
 
 interface StepListProps {
   steps: RecordedStep[];
   onReorder: (steps: RecordedStep[]) => void;
   onDelete: (stepId: string) => void;
+  selectedStepId?: string | null;
+  currentStepId?: string | null;
+  onSelect?: (stepId: string) => void;
+  onUpdate?: (step: RecordedStep) => void;
+  onMoveInto?: (blockId: string, branch: StepBranch) => void;
+  emptyMessage?: string;
+  // Saved flows, used to name the flows run-flow steps call
+  flows?: Flow[];
+  // Results of the last dry-run validation, by step ID
+  selectorChecks?: Record<string, SelectorCheck> | null;
 }
 
-export function StepList({ steps, onReorder, onDelete }: StepListProps) {
+const BRANCH_LABELS: Record<StepBranch, string> = {
+  then: 'Then',
+  else: 'Else',
+  body: 'Do',
+};
+
+export function StepList({
+  steps,
+  onReorder,
+  onDelete,
+  selectedStepId,
+  currentStepId,
+  onSelect,
+  onUpdate,
+  onMoveInto,
+  emptyMessage = 'No steps in this flow.',
+  flows,
+  selectorChecks,
+}: StepListProps) {
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
 
   const handleDragStart = (index: number) => {
     setDraggedIndex(index);
@@ -32,28 +62,83 @@ export function StepList({ steps, onReorder, onDelete }: StepListProps) {
     setDraggedIndex(null);
   };
 
+  const toggleCollapsed = (stepId: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(stepId)) next.delete(stepId);
+      else next.add(stepId);
+      return next;
+    });
+  };
+
   if (steps.length === 0) {
     return (
       <div className="flow-list-empty">
-        <p>No steps in this flow.</p>
+        <p>{emptyMessage}</p>
       </div>
     );
   }
 
   return (
     <div className="step-list">
-      {steps.map((step, index) => (
-        <StepItem
-          key={step.id}
-          step={step}
-          index={index}
-          isDragging={draggedIndex === index}
-          onDragStart={() => handleDragStart(index)}
-          onDragOver={(e) => handleDragOver(e, index)}
-          onDragEnd={handleDragEnd}
-          onDelete={() => onDelete(step.id)}
-        />
-      ))}
+      {steps.map((step, index) => {
+        const branches = getStepBranches(step);
+        const isCollapsed = collapsedIds.has(step.id);
+
+        return (
+          <Fragment key={step.id}>
+            <StepItem
+              step={step}
+              index={index}
+              isDragging={draggedIndex === index}
+              isSelected={selectedStepId === step.id}
+              isCurrent={currentStepId === step.id}
+              isCollapsed={isCollapsed}
+              onToggleCollapse={branches.length > 0 ? () => toggleCollapsed(step.id) : undefined}
+              onSelect={() => onSelect?.(step.id)}
+              onDragStart={() => handleDragStart(index)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDragEnd={handleDragEnd}
+              onDelete={() => onDelete(step.id)}
+              onSave={onUpdate}
+              flows={flows}
+              selectorCheck={selectorChecks?.[step.id]}
+            />
+            {branches.length > 0 && !isCollapsed && (
+              <div className="step-branches">
+                {branches.map((branch) => (
+                  <div key={branch}>
+                    <div className="step-branch-header">
+                      <span>{BRANCH_LABELS[branch]}</span>
+                      {onMoveInto && selectedStepId && selectedStepId !== step.id && (
+                        <button
+                          className="btn btn-secondary btn-small"
+                          onClick={() => onMoveInto(step.id, branch)}
+                        >
+                          Move selected step here
+                        </button>
+                      )}
+                    </div>
+                    <StepList
+                      steps={getBranchSteps(step, branch)}
+                      onReorder={(newSteps) => onUpdate?.(setBranchSteps(step, branch, newSteps))}
+                      onDelete={onDelete}
+                      selectedStepId={selectedStepId}
+                      currentStepId={currentStepId}
+                      onSelect={onSelect}
+                      onUpdate={onUpdate}
+                      onMoveInto={onMoveInto}
+                      emptyMessage="No steps in this branch."
+                      flows={flows}
+                      selectorChecks={selectorChecks}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </Fragment>
+        );
+      })}
     </div>
   );
 }
@@ -0,0 +1,64 @@
+import type { TypingMode, TypingOptions } from '../types';
+import { DEFAULT_TYPING_OPTIONS } from '../utils/policy';
+
+interface TypingFieldsProps {
+  typing: Partial<TypingOptions>;
+  onChange: (typing: Partial<TypingOptions>) => void;
+  // Empty fields fall back to the flow's typing setting (per-step overrides)
+  allowInherit?: boolean;
+}
+
+const TYPING_MODES: { value: TypingMode; label: string }[] = [
+  { value: 'instant', label: 'Set value at once' },
+  { value: 'keystrokes', label: 'Type key by key' },
+];
+
+// Check typing options for invalid values, returning an error message or null
+export function validateTyping(typing: Partial<TypingOptions>): string | null {
+  const { keyDelay } = typing;
+  if (keyDelay !== undefined && (isNaN(keyDelay) || keyDelay < 0)) {
+    return 'Key delay must be a non-negative number';
+  }
+  return null;
+}
+
+export function TypingFields({ typing, onChange, allowInherit }: TypingFieldsProps) {
+  const update = (updates: Partial<TypingOptions>) => {
+    onChange({ ...typing, ...updates });
+  };
+
+  return (
+    <>
+      <label className="step-editor-field">
+        <span>Typing</span>
+        <select
+          className="input"
+          value={typing.mode ?? ''}
+          onChange={(e) => update({ mode: (e.target.value || undefined) as TypingMode })}
+        >
+          {allowInherit && <option value="">Flow setting</option>}
+          {TYPING_MODES.map((mode) => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {typing.mode !== 'instant' && (
+        <label className="step-editor-field">
+          <span>Key delay (ms)</span>
+          <input
+            type="number"
+            className="input"
+            min={0}
+            value={typing.keyDelay ?? ''}
+            placeholder={allowInherit ? 'Flow setting' : String(DEFAULT_TYPING_OPTIONS.keyDelay)}
+            onChange={(e) =>
+              update({ keyDelay: e.target.value === '' ? undefined : Number(e.target.value) })
+            }
+          />
+        </label>
+      )}
+    </>
+  );
+}
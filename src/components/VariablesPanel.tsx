@@ -0,0 +1,146 @@
+import type { Flow } from '../types';
+import { getFlowVariableNames } from '../utils/variables';
+import { importDataset } from '../utils/dataset';
+
+interface VariablesPanelProps {
+  flow: Flow;
+  onChange: (updates: Partial<Flow>) => void;
+}
+
+export function VariablesPanel({ flow, onChange }: VariablesPanelProps) {
+  const variables = flow.variables || {};
+  const datasetColumns = flow.dataset?.columns || [];
+
+  // Show defined variables plus any placeholder used in the flow but not yet defined
+  const names = [...Object.keys(variables)];
+  for (const name of getFlowVariableNames(flow)) {
+    if (!names.includes(name)) names.push(name);
+  }
+
+  const handleValueChange = (name: string, value: string) => {
+    onChange({ variables: { ...variables, [name]: value } });
+  };
+
+  const handleRemove = (name: string) => {
+    const rest = { ...variables };
+    delete rest[name];
+    onChange({ variables: rest });
+  };
+
+  const handleAdd = () => {
+    const name = prompt('Variable name (use it in steps as {{name}}):');
+    if (!name) return;
+
+    if (!/^[\w.-]+$/.test(name)) {
+      alert('Variable names may only contain letters, numbers, "_", "-" and "."');
+      return;
+    }
+
+    onChange({ variables: { ...variables, [name]: variables[name] ?? '' } });
+  };
+
+  const handleAttachDataset = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,.json';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const dataset = await importDataset(file);
+        onChange({ dataset });
+      } catch (error) {
+        alert('Dataset import failed: ' + (error as Error).message);
+      }
+    };
+    input.click();
+  };
+
+  return (
+    <div className="panel">
+      <div className="panel-header">
+        <h2 style={{ fontSize: '16px', fontWeight: '600' }}>Variables</h2>
+        <button className="btn btn-secondary btn-small" onClick={handleAdd}>
+          + Add Variable
+        </button>
+      </div>
+
+      {names.length === 0 ? (
+        <p className="panel-hint">
+          Use <code>{'{{name}}'}</code> in step values or URLs to parameterize this flow.
+        </p>
+      ) : (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Default value</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {names.map((name) => (
+              <tr key={name}>
+                <td>
+                  <code>{`{{${name}}}`}</code>
+                  {datasetColumns.includes(name) && (
+                    <span className="panel-hint"> (from dataset)</span>
+                  )}
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    className="input"
+                    value={variables[name] ?? ''}
+                    placeholder={name in variables ? '' : 'Not defined'}
+                    onChange={(e) => handleValueChange(name, e.target.value)}
+                    style={{ width: '100%' }}
+                  />
+                </td>
+                <td>
+                  {name in variables && (
+                    <button
+                      className="btn btn-icon btn-danger"
+                      onClick={() => handleRemove(name)}
+                      title="Remove variable"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="panel-header" style={{ marginTop: '16px' }}>
+        <h3 style={{ fontSize: '14px', fontWeight: '600' }}>Dataset</h3>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <button className="btn btn-secondary btn-small" onClick={handleAttachDataset}>
+            {flow.dataset ? 'Replace' : 'Attach CSV/JSON'}
+          </button>
+          {flow.dataset && (
+            <button
+              className="btn btn-danger btn-small"
+              onClick={() => onChange({ dataset: undefined })}
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+      {flow.dataset ? (
+        <p className="panel-hint">
+          {flow.dataset.name}: {flow.dataset.rows.length} rows, columns{' '}
+          {flow.dataset.columns.join(', ')}. The flow runs once per row.
+        </p>
+      ) : (
+        <p className="panel-hint">
+          Attach a dataset to run the flow once per row, with columns as variables.
+        </p>
+      )}
+    </div>
+  );
+}
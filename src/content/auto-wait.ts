@@ -0,0 +1,137 @@
+// Auto-wait: instead of replaying the recorded think-time, steps wait until the page has settled
+// (no DOM changes for a quiet period, no requests in flight) and the target is ready for input
+
+import { NETWORK_QUERY_EVENT, NETWORK_STATE_EVENT } from '../utils/network';
+
+const POLL_INTERVAL_MS = 50;
+
+// Latest count reported by the network hook; null until it has answered
+let inFlightRequests: number | null = null;
+
+document.addEventListener(NETWORK_STATE_EVENT, (event) => {
+  inFlightRequests = Number((event as CustomEvent<string>).detail);
+});
+
+// Number of fetch/XHR requests the page has in flight (0 when the network hook is not there)
+function getInFlightRequests(): number {
+  inFlightRequests = null;
+  // The hook answers synchronously
+  document.dispatchEvent(new CustomEvent(NETWORK_QUERY_EVENT));
+  return inFlightRequests ?? 0;
+}
+
+// Changes to the extension's own elements (highlights, banners) do not count
+function isOwnMutation(mutation: MutationRecord): boolean {
+  const target =
+    mutation.target instanceof Element ? mutation.target : mutation.target.parentElement;
+  return !!target?.closest('[data-flow-recorder]');
+}
+
+// Wait until the DOM has not changed for `quietPeriod` ms and no requests are in flight.
+// Returns false when the page did not settle within the timeout.
+export function waitForPageStable(quietPeriod: number, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+    let lastChange = startTime;
+
+    const observer = new MutationObserver((mutations) => {
+      if (!mutations.every(isOwnMutation)) lastChange = Date.now();
+    });
+    observer.observe(document, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    });
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      if (getInFlightRequests() > 0) lastChange = now;
+      const settled = now - lastChange >= quietPeriod;
+      if (settled || now - startTime >= timeoutMs) {
+        clearInterval(interval);
+        observer.disconnect();
+        resolve(settled);
+      }
+    }, POLL_INTERVAL_MS);
+  });
+}
+
+// Topmost element at a point, looking into shadow roots
+function elementAtPoint(x: number, y: number): Element | null {
+  let hit = document.elementFromPoint(x, y);
+  while (hit?.shadowRoot) {
+    const inner = hit.shadowRoot.elementFromPoint(x, y);
+    if (!inner || inner === hit) break;
+    hit = inner;
+  }
+  return hit;
+}
+
+// Whether `node` is `element` or inside it, including its shadow tree
+function isWithin(node: Node, element: Element): boolean {
+  for (let n: Node | null = node; n; n = n instanceof ShadowRoot ? n.host : n.parentNode) {
+    if (n === element) return true;
+  }
+  return false;
+}
+
+// Why an element cannot receive an action right now, or null when it can
+function getActionBlocker(element: Element, previousRect: DOMRect | null): string | null {
+  if (!element.isConnected) return 'was removed from the page';
+
+  const rect = element.getBoundingClientRect();
+  const style = window.getComputedStyle(element);
+  if (
+    rect.width === 0 ||
+    rect.height === 0 ||
+    style.display === 'none' ||
+    style.visibility === 'hidden' ||
+    style.opacity === '0'
+  ) {
+    return 'is not visible';
+  }
+
+  if (element.matches(':disabled') || element.getAttribute('aria-disabled') === 'true') {
+    return 'is disabled';
+  }
+
+  if (
+    !previousRect ||
+    rect.x !== previousRect.x ||
+    rect.y !== previousRect.y ||
+    rect.width !== previousRect.width ||
+    rect.height !== previousRect.height
+  ) {
+    return 'is still moving';
+  }
+
+  // Elements outside the viewport cannot be hit-tested; they were scrolled into view before
+  const x = rect.left + rect.width / 2;
+  const y = rect.top + rect.height / 2;
+  const hit = elementAtPoint(x, y);
+  if (hit && !isWithin(hit, element) && !isWithin(element, hit)) {
+    return 'is covered by another element';
+  }
+
+  return null;
+}
+
+// Wait until an element is visible, enabled, not moving and not covered by another element.
+// Returns null when it is ready, otherwise why it still was not when the timeout passed.
+export async function waitForActionable(
+  element: Element,
+  timeoutMs: number
+): Promise<string | null> {
+  const startTime = Date.now();
+  let previousRect: DOMRect | null = null;
+  let blocker: string | null = 'is not ready';
+
+  while (Date.now() - startTime < timeoutMs) {
+    blocker = getActionBlocker(element, previousRect);
+    if (!blocker) return null;
+    previousRect = element.isConnected ? element.getBoundingClientRect() : null;
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+  }
+  return blocker;
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectCaptcha } from './captcha';
+
+const ANCHOR = 'https://www.google.com/recaptcha/api2/anchor?k=site';
+
+// jsdom does not lay out, so every element gets a size
+beforeEach(() => {
+  vi.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 300, 80));
+});
+
+afterEach(() => {
+  document.body.innerHTML = '';
+  vi.restoreAllMocks();
+});
+
+describe('detectCaptcha', () => {
+  it('ignores the reCAPTCHA v3 badge', () => {
+    document.body.innerHTML = `
+      <form>
+        <input name="email">
+        <div class="grecaptcha-badge" data-style="bottomright">
+          <div class="grecaptcha-logo">
+            <iframe title="reCAPTCHA" src="${ANCHOR}&size=invisible"></iframe>
+          </div>
+        </div>
+        <textarea name="g-recaptcha-response" style="display: none"></textarea>
+      </form>
+    `;
+
+    expect(detectCaptcha()).toEqual({ detected: false, type: null });
+  });
+
+  it('ignores invisible widgets and site key hosts without a challenge frame', () => {
+    document.body.innerHTML = `
+      <div class="g-recaptcha" data-sitekey="site" data-size="invisible">
+        <iframe title="reCAPTCHA" src="${ANCHOR}&size=invisible"></iframe>
+      </div>
+      <button data-sitekey="site" class="captcha-submit">Send</button>
+    `;
+
+    expect(detectCaptcha()).toEqual({ detected: false, type: null });
+  });
+
+  it('detects an unsolved reCAPTCHA checkbox until its token is filled in', () => {
+    document.body.innerHTML = `
+      <form>
+        <div class="g-recaptcha" data-sitekey="site">
+          <iframe title="reCAPTCHA" src="${ANCHOR}&size=normal"></iframe>
+          <textarea name="g-recaptcha-response" style="display: none"></textarea>
+        </div>
+      </form>
+    `;
+
+    expect(detectCaptcha()).toEqual({ detected: true, type: 'reCAPTCHA' });
+
+    document.querySelector('textarea')!.value = 'token';
+    expect(detectCaptcha()).toEqual({ detected: false, type: null });
+  });
+
+  it('ignores hidden challenge frames', () => {
+    document.body.innerHTML = `
+      <div class="h-captcha" data-sitekey="site">
+        <iframe src="https://newassets.hcaptcha.com/captcha/v1" style="display: none"></iframe>
+      </div>
+    `;
+
+    expect(detectCaptcha()).toEqual({ detected: false, type: null });
+  });
+
+  it('detects home-made CAPTCHAs', () => {
+    document.body.innerHTML = `
+      <div id="captcha">
+        <img src="/captcha.png">
+        <input name="answer">
+      </div>
+    `;
+
+    expect(detectCaptcha()).toEqual({ detected: true, type: 'CAPTCHA' });
+  });
+});
@@ -0,0 +1,101 @@
+// CAPTCHA detection: finds a challenge on the page that waits for the user. Widgets that never
+// ask anything (the reCAPTCHA v3 badge, invisible widgets) do not count.
+
+// Hosts third-party widgets render their challenge frame into
+const WIDGET_SELECTOR = [
+  '.g-recaptcha',
+  '#recaptcha',
+  '[data-sitekey]',
+  '.h-captcha',
+  '.cf-turnstile',
+  '#funcaptcha',
+].join(', ');
+
+// Frames holding a challenge
+const FRAME_SELECTOR = [
+  'iframe[src*="recaptcha"]',
+  'iframe[title*="reCAPTCHA"]',
+  'iframe[src*="hcaptcha"]',
+  'iframe[src*="challenges.cloudflare.com"]',
+  'iframe[src*="funcaptcha"]',
+].join(', ');
+
+// Home-made CAPTCHAs, e.g. an image of distorted text next to a field
+const CUSTOM_SELECTOR = ['[class*="captcha"]', '[id*="captcha"]', 'img[src*="captcha"]'].join(', ');
+
+// Widgets and frames with nothing to solve
+const PASSIVE_SELECTOR = [
+  '.grecaptcha-badge',
+  '[data-size="invisible"]',
+  'iframe[src*="size=invisible"]',
+].join(', ');
+
+// Fields CAPTCHA widgets fill with their response token once solved
+const TOKEN_SELECTORS = [
+  'textarea[name="g-recaptcha-response"]',
+  'textarea[name="h-captcha-response"]',
+  'input[name="cf-turnstile-response"]',
+  'input[name="fc-token"]',
+];
+
+// Names of the widgets, by the elements that identify them
+const CAPTCHA_TYPES: [string, string][] = [
+  ['reCAPTCHA', '.g-recaptcha, iframe[src*="recaptcha"], iframe[title*="reCAPTCHA"]'],
+  ['hCaptcha', '.h-captcha, iframe[src*="hcaptcha"]'],
+  ['Cloudflare Turnstile', '.cf-turnstile, iframe[src*="challenges.cloudflare.com"]'],
+];
+
+function isShown(element: Element): boolean {
+  const rect = element.getBoundingClientRect();
+  const style = window.getComputedStyle(element);
+  return (
+    rect.width > 0 && rect.height > 0 && style.display !== 'none' && style.visibility !== 'hidden'
+  );
+}
+
+// Whether a frame shows a challenge the user can interact with
+function isChallengeFrame(frame: Element): boolean {
+  return isShown(frame) && !frame.closest(PASSIVE_SELECTOR);
+}
+
+// Whether an element matched by the CAPTCHA selectors holds a challenge the user has to solve:
+// a challenge frame, or a home-made CAPTCHA. Widget hosts without a challenge frame (e.g. a
+// [data-sitekey] host of an invisible widget) do not.
+function isInteractiveChallenge(element: Element): boolean {
+  if (!isShown(element) || element.closest(PASSIVE_SELECTOR)) return false;
+  if (element.matches(FRAME_SELECTOR)) return true;
+
+  const frames = Array.from(element.querySelectorAll(FRAME_SELECTOR));
+  if (frames.length > 0) return frames.some(isChallengeFrame);
+  return !element.matches(WIDGET_SELECTOR) && !element.querySelector(WIDGET_SELECTOR);
+}
+
+// Whether a CAPTCHA has been solved, i.e. a response token was filled in its form (or anywhere
+// on the page when it is not in a form)
+function isCaptchaSolved(element: Element): boolean {
+  const scope = element.closest('form') ?? document;
+  return TOKEN_SELECTORS.some((selector) =>
+    Array.from(scope.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>(selector)).some(
+      (field) => field.value
+    )
+  );
+}
+
+function getCaptchaType(element: Element): string {
+  const match = CAPTCHA_TYPES.find(
+    ([, selector]) => element.matches(selector) || element.querySelector(selector)
+  );
+  return match ? match[0] : 'CAPTCHA';
+}
+
+// Find an interactive CAPTCHA on the page that has not been solved yet
+export function detectCaptcha(): { detected: boolean; type: string | null } {
+  for (const selector of [FRAME_SELECTOR, WIDGET_SELECTOR, CUSTOM_SELECTOR]) {
+    for (const element of Array.from(document.querySelectorAll(selector))) {
+      if (isInteractiveChallenge(element) && !isCaptchaSolved(element)) {
+        return { detected: true, type: getCaptchaType(element) };
+      }
+    }
+  }
+  return { detected: false, type: null };
+}
@@ -0,0 +1,130 @@
+// Runs in the page's main world, where it can replace window.alert, confirm and prompt: native
+// dialogs block the page and the content script until answered. The content script sets how
+// dialogs are answered and hears about each one through DOM events (see utils/dialogs).
+
+import type { DialogHookConfig, DialogKind, DialogRecord, DialogResponse } from '../types';
+import {
+  DEFAULT_DIALOG_RESPONSE,
+  DIALOG_CONFIG_EVENT,
+  DIALOG_OPENED_EVENT,
+} from '../utils/dialogs';
+
+type DialogWindow = Window & { __flowRecorderDialogHook?: boolean };
+
+// Whether a beforeunload event asked the user to confirm leaving
+function asksToLeave(event: BeforeUnloadEvent): boolean {
+  return (
+    event.defaultPrevented || (typeof event.returnValue === 'string' && event.returnValue !== '')
+  );
+}
+
+function installDialogHook(win: DialogWindow): void {
+  let config: DialogHookConfig = { mode: 'off' };
+  const native = { alert: win.alert, confirm: win.confirm, prompt: win.prompt };
+
+  document.addEventListener(DIALOG_CONFIG_EVENT, (event) => {
+    config = JSON.parse((event as CustomEvent<string>).detail);
+  });
+
+  const report = (record: DialogRecord) => {
+    document.dispatchEvent(
+      new CustomEvent(DIALOG_OPENED_EVENT, { detail: JSON.stringify(record) })
+    );
+  };
+
+  // Playback answer: the first expected one for this kind of dialog, otherwise the fallback
+  const takeResponse = (kind: DialogKind): DialogResponse => {
+    const expected = config.expected ?? [];
+    const index = expected.findIndex((e) => e.kind === kind);
+    if (index === -1) return config.fallback ?? DEFAULT_DIALOG_RESPONSE;
+    return expected.splice(index, 1)[0].response;
+  };
+
+  win.alert = function alert(message?: unknown): void {
+    const text = message === undefined ? '' : String(message);
+    if (config.mode === 'playback') {
+      report({ kind: 'alert', message: text, response: takeResponse('alert') });
+      return;
+    }
+    native.alert.call(win, text);
+    if (config.mode === 'record') {
+      report({ kind: 'alert', message: text, response: { action: 'accept' } });
+    }
+  };
+
+  win.confirm = function confirm(message?: unknown): boolean {
+    const text = message === undefined ? '' : String(message);
+    if (config.mode === 'playback') {
+      const response = takeResponse('confirm');
+      report({ kind: 'confirm', message: text, response });
+      return response.action === 'accept';
+    }
+    const accepted = native.confirm.call(win, text);
+    if (config.mode === 'record') {
+      report({
+        kind: 'confirm',
+        message: text,
+        response: { action: accepted ? 'accept' : 'dismiss' },
+      });
+    }
+    return accepted;
+  };
+
+  win.prompt = function prompt(message?: unknown, defaultValue?: unknown): string | null {
+    const text = message === undefined ? '' : String(message);
+    const initial = defaultValue === undefined ? '' : String(defaultValue);
+    if (config.mode === 'playback') {
+      const response = takeResponse('prompt');
+      report({ kind: 'prompt', message: text, response });
+      return response.action === 'accept' ? (response.promptText ?? initial) : null;
+    }
+    const entered = native.prompt.call(win, text, initial);
+    if (config.mode === 'record') {
+      report({
+        kind: 'prompt',
+        message: text,
+        response:
+          entered === null ? { action: 'dismiss' } : { action: 'accept', promptText: entered },
+      });
+    }
+    return entered;
+  };
+
+  // The page asks to confirm leaving from its own beforeunload handlers, which run after this
+  // one as it is registered first. Whether the user stayed shows once the event is over: the
+  // page is still there (the timer fires) or is being left (pagehide).
+  win.addEventListener('beforeunload', (event) => {
+    if (config.mode === 'off') return;
+
+    if (config.mode === 'playback') {
+      const response = takeResponse('beforeunload');
+      if (response.action === 'accept') {
+        // Keep the page's handlers from asking, so it is left without a prompt
+        event.stopImmediatePropagation();
+        report({ kind: 'beforeunload', message: '', response });
+        return;
+      }
+      // Staying cannot be chosen without the browser's prompt, which the page's handlers decide on
+    }
+
+    const onLeave = () => {
+      if (config.mode === 'record' && asksToLeave(event)) {
+        report({ kind: 'beforeunload', message: '', response: { action: 'accept' } });
+      }
+    };
+    win.addEventListener('pagehide', onLeave, { once: true });
+    setTimeout(() => {
+      win.removeEventListener('pagehide', onLeave);
+      if (asksToLeave(event)) {
+        report({ kind: 'beforeunload', message: '', response: { action: 'dismiss' } });
+      }
+    });
+  });
+}
+
+// Prevent duplicate injection
+const dialogWindow = window as DialogWindow;
+if (!dialogWindow.__flowRecorderDialogHook) {
+  dialogWindow.__flowRecorderDialogHook = true;
+  installDialogHook(dialogWindow);
+}
@@ -0,0 +1,81 @@
+// Content script side of the dialog hook (content/dialog-hook.ts), which answers the page's
+// native dialogs in its main world
+
+import type {
+  DialogHookConfig,
+  DialogKind,
+  DialogRecord,
+  StepExecutionPayload,
+} from '../types';
+import { DIALOG_CONFIG_EVENT, DIALOG_OPENED_EVENT } from '../utils/dialogs';
+
+interface OpenedDialog {
+  record: DialogRecord;
+  // Included in a step result
+  reported: boolean;
+  // Claimed by a dialog step
+  matched: boolean;
+}
+
+// Dialogs answered in this page since playback armed the hook, in the order they opened
+let openedDialogs: OpenedDialog[] = [];
+
+const listeners = new Set<(record: DialogRecord) => void>();
+
+document.addEventListener(DIALOG_OPENED_EVENT, (event) => {
+  const record: DialogRecord = JSON.parse((event as CustomEvent<string>).detail);
+  console.log(`Flow Recorder: ${record.kind} dialog answered:`, record.message);
+  openedDialogs.push({ record, reported: false, matched: false });
+  listeners.forEach((listener) => listener(record));
+});
+
+// Change how the page's dialogs are answered
+export function setDialogHook(config: DialogHookConfig): void {
+  document.dispatchEvent(new CustomEvent(DIALOG_CONFIG_EVENT, { detail: JSON.stringify(config) }));
+  if (config.mode !== 'playback') openedDialogs = [];
+}
+
+// Call a listener for every dialog the page opens; returns a function removing it
+export function onDialog(listener: (record: DialogRecord) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Have the hook answer dialogs for the step about to run. A dialog step's own answer is expected
+// too unless its dialog already opened (it usually opens during the step before).
+export function armDialogs(step: StepExecutionPayload): void {
+  if (!step.dialogs) return;
+  const expected = [...(step.dialogs.expected ?? [])];
+  if (step.type === 'dialog' && step.dialog && !findUnmatched(step.dialog.kind)) {
+    expected.unshift({ kind: step.dialog.kind, response: step.dialog.response });
+  }
+  setDialogHook({ mode: 'playback', expected, fallback: step.dialogs.fallback });
+}
+
+function findUnmatched(kind: DialogKind): OpenedDialog | undefined {
+  return openedDialogs.find((d) => !d.matched && d.record.kind === kind);
+}
+
+// Dialogs answered since the last call, for the result of the step that just ran
+export function collectDialogs(): DialogRecord[] {
+  const unreported = openedDialogs.filter((d) => !d.reported);
+  unreported.forEach((d) => (d.reported = true));
+  return unreported.map((d) => d.record);
+}
+
+// Wait up to `timeoutMs` for a dialog of the given kind that no dialog step has claimed yet
+export async function waitForDialog(
+  kind: DialogKind,
+  timeoutMs: number
+): Promise<DialogRecord | null> {
+  const startTime = Date.now();
+  while (Date.now() - startTime < timeoutMs) {
+    const opened = findUnmatched(kind);
+    if (opened) {
+      opened.matched = true;
+      return opened.record;
+    }
+    await new Promise((r) => setTimeout(r, 100));
+  }
+  return null;
+}
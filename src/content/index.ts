@@ -1,6 +1,9 @@
-import type { Message, RecordedStep } from '../types';
+import type { Message, SelectorCheckRequest, StepExecutionPayload } from '../types';
+import { checkSelectors } from '../utils/locator';
 import { startRecording, stopRecording } from './recorder';
 import { executeStep } from './player';
+import { startPicker, stopPicker } from './picker';
+import { setDialogHook } from './dialogs';
 
 // Prevent duplicate injection
 if ((window as unknown as { __flowRecorderLoaded?: boolean }).__flowRecorderLoaded) {
@@ -27,11 +30,35 @@ if ((window as unknown as { __flowRecorderLoaded?: boolean }).__flowRecorderLoad
             stopRecording();
             return { success: true };
 
+          case 'START_PICKER':
+            startPicker();
+            return { success: true };
+
+          case 'STOP_PICKER':
+            stopPicker();
+            return { success: true };
+
+          case 'PLAYBACK_ENDED':
+            // Dialogs are no longer answered automatically
+            setDialogHook({ mode: 'off' });
+            return { success: true };
+
+          case 'VALIDATE_SELECTORS':
+            // Dry run: look up step targets without acting on them
+            return {
+              success: true,
+              checks: checkSelectors(message.payload as SelectorCheckRequest[]),
+            };
+
           case 'EXECUTE_STEP':
             console.log('Flow Recorder: Executing step:', message.payload);
-            const success = await executeStep(message.payload as RecordedStep);
-            console.log('Flow Recorder: Step result:', success);
-            return { success };
+            const result = await executeStep(message.payload as StepExecutionPayload);
+            console.log('Flow Recorder: Step result:', result);
+            // Report the outcome as a STEP_COMPLETED or STEP_FAILED message
+            return {
+              type: result.success ? 'STEP_COMPLETED' : 'STEP_FAILED',
+              payload: result,
+            } satisfies Message;
 
           default:
             console.warn('Flow Recorder: Unknown message type:', message.type);
@@ -39,6 +66,9 @@ if ((window as unknown as { __flowRecorderLoaded?: boolean }).__flowRecorderLoad
         }
       } catch (error) {
         console.error('Flow Recorder: Error handling message:', error);
+        if (message.type === 'EXECUTE_STEP') {
+          return { type: 'STEP_FAILED', payload: { success: false, error: String(error) } } satisfies Message;
+        }
         return { success: false, error: String(error) };
       }
     };
@@ -0,0 +1,42 @@
+// Runs in the page's main world, where it can see the page's fetch and XHR requests, and tells
+// the content script how many are in flight so auto-wait can hold steps until the page is idle
+
+import { LONG_REQUEST_MS, NETWORK_QUERY_EVENT, NETWORK_STATE_EVENT } from '../utils/network';
+
+type NetworkWindow = Window & { __flowRecorderNetworkHook?: boolean };
+
+function installNetworkHook(win: NetworkWindow): void {
+  // Start times of the requests in flight
+  const requests = new Set<{ startedAt: number }>();
+
+  const track = () => {
+    const request = { startedAt: Date.now() };
+    requests.add(request);
+    return () => requests.delete(request);
+  };
+
+  const nativeFetch = win.fetch;
+  win.fetch = function fetch(...args: Parameters<typeof nativeFetch>) {
+    const done = track();
+    return nativeFetch.apply(this, args).finally(done);
+  };
+
+  const nativeSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.send = function send(...args: Parameters<typeof nativeSend>) {
+    this.addEventListener('loadend', track(), { once: true });
+    return nativeSend.apply(this, args);
+  };
+
+  document.addEventListener(NETWORK_QUERY_EVENT, () => {
+    const now = Date.now();
+    const inFlight = [...requests].filter((r) => now - r.startedAt < LONG_REQUEST_MS).length;
+    document.dispatchEvent(new CustomEvent(NETWORK_STATE_EVENT, { detail: String(inFlight) }));
+  });
+}
+
+// Prevent duplicate injection
+const networkWindow = window as NetworkWindow;
+if (!networkWindow.__flowRecorderNetworkHook) {
+  networkWindow.__flowRecorderNetworkHook = true;
+  installNetworkHook(networkWindow);
+}
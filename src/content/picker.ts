@@ -0,0 +1,163 @@
+import type { ElementSelector } from '../types';
+import { describeCandidate } from '../utils/selectors';
+import { generateShadowAwareSelector, getRealTarget } from './recorder';
+
+let isPicking = false;
+let highlightBox: HTMLDivElement | null = null;
+let tooltip: HTMLDivElement | null = null;
+let hoveredElement: Element | null = null;
+let describeTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Candidate generation queries the whole page, so it waits until the pointer rests
+const DESCRIBE_DELAY_MS = 150;
+
+// Candidate selectors shown for the hovered element, ranked, with their score and matches
+function getSelectorCandidates(selector: ElementSelector): string[] {
+  const candidates = (selector.candidates ?? []).map((candidate) => {
+    const matches = candidate.matches === 1 ? 'unique' : `${candidate.matches} matches`;
+    return `${candidate.score} ${describeCandidate(candidate).substring(0, 60)} (${matches})`;
+  });
+  return [...candidates, `CSS: ${selector.css}`, `XPath: ${selector.xpath}`];
+}
+
+// Create the highlight box and tooltip overlay
+function createOverlay(): void {
+  highlightBox = document.createElement('div');
+  highlightBox.setAttribute('data-flow-recorder', 'picker');
+  highlightBox.style.cssText =
+    'position:fixed;pointer-events:none;z-index:2147483646;border:2px solid #4A90D9;background:rgba(74,144,217,0.15);border-radius:2px;display:none;';
+
+  tooltip = document.createElement('div');
+  tooltip.setAttribute('data-flow-recorder', 'picker');
+  tooltip.style.cssText =
+    'position:fixed;pointer-events:none;z-index:2147483647;max-width:420px;padding:6px 8px;background:#2C3E50;color:white;font:12px/1.4 monospace;border-radius:4px;white-space:pre-wrap;word-break:break-all;display:none;';
+
+  document.documentElement.appendChild(highlightBox);
+  document.documentElement.appendChild(tooltip);
+}
+
+function removeOverlay(): void {
+  if (describeTimer) clearTimeout(describeTimer);
+  describeTimer = null;
+  highlightBox?.remove();
+  tooltip?.remove();
+  highlightBox = null;
+  tooltip = null;
+  hoveredElement = null;
+}
+
+// Move the overlay onto an element, then list its candidate selectors once the pointer rests
+function showOverlay(element: Element): void {
+  if (!highlightBox || !tooltip) return;
+
+  const rect = element.getBoundingClientRect();
+  highlightBox.style.display = 'block';
+  highlightBox.style.left = `${rect.left}px`;
+  highlightBox.style.top = `${rect.top}px`;
+  highlightBox.style.width = `${rect.width}px`;
+  highlightBox.style.height = `${rect.height}px`;
+
+  showTooltip(rect, [`<${element.tagName.toLowerCase()}>`, 'Click to pick, Esc to cancel']);
+
+  if (describeTimer) clearTimeout(describeTimer);
+  describeTimer = setTimeout(() => {
+    describeTimer = null;
+    if (element !== hoveredElement) return;
+
+    const selector = generateShadowAwareSelector(element);
+    showTooltip(element.getBoundingClientRect(), [
+      `<${selector.tagName}>`,
+      ...getSelectorCandidates(selector),
+      'Click to pick, Esc to cancel',
+    ]);
+  }, DESCRIBE_DELAY_MS);
+}
+
+// Show lines in the tooltip next to an element
+function showTooltip(rect: DOMRect, lines: string[]): void {
+  if (!tooltip) return;
+
+  tooltip.textContent = lines.join('\n');
+  tooltip.style.display = 'block';
+
+  // Place the tooltip below the element, or above it near the bottom of the viewport
+  const height = tooltip.offsetHeight;
+  const top = rect.bottom + 8 + height > window.innerHeight ? Math.max(rect.top - height - 8, 0) : rect.bottom + 8;
+  tooltip.style.left = `${Math.max(Math.min(rect.left, window.innerWidth - 430), 0)}px`;
+  tooltip.style.top = `${top}px`;
+}
+
+function isOverlayElement(element: Element): boolean {
+  return !!element.closest('[data-flow-recorder]');
+}
+
+function handleMouseMove(event: MouseEvent): void {
+  const target = getRealTarget(event);
+  if (!target || isOverlayElement(target) || target === hoveredElement) return;
+
+  hoveredElement = target;
+  showOverlay(target);
+}
+
+// Swallow pointer events so picking does not trigger page behaviour
+function blockEvent(event: Event): void {
+  event.preventDefault();
+  event.stopPropagation();
+  event.stopImmediatePropagation();
+}
+
+function handleClick(event: MouseEvent): void {
+  blockEvent(event);
+
+  const target = getRealTarget(event);
+  if (!target || isOverlayElement(target)) return;
+
+  const selector = generateShadowAwareSelector(target);
+  console.log('Flow Recorder: Element picked:', selector);
+  stopPicker();
+  chrome.runtime.sendMessage({ type: 'ELEMENT_PICKED', payload: selector });
+}
+
+function handleKeydown(event: KeyboardEvent): void {
+  if (event.key !== 'Escape') return;
+
+  blockEvent(event);
+  stopPicker();
+  chrome.runtime.sendMessage({ type: 'PICKER_CANCELLED' });
+}
+
+// Start picker mode
+export function startPicker(): void {
+  if (isPicking) return;
+
+  isPicking = true;
+  createOverlay();
+
+  window.addEventListener('mousemove', handleMouseMove, true);
+  window.addEventListener('click', handleClick, true);
+  window.addEventListener('mousedown', blockEvent, true);
+  window.addEventListener('mouseup', blockEvent, true);
+  window.addEventListener('pointerdown', blockEvent, true);
+  window.addEventListener('pointerup', blockEvent, true);
+  window.addEventListener('keydown', handleKeydown, true);
+
+  console.log('Flow Recorder: Element picker started');
+}
+
+// Stop picker mode
+export function stopPicker(): void {
+  if (!isPicking) return;
+
+  isPicking = false;
+  removeOverlay();
+
+  window.removeEventListener('mousemove', handleMouseMove, true);
+  window.removeEventListener('click', handleClick, true);
+  window.removeEventListener('mousedown', blockEvent, true);
+  window.removeEventListener('mouseup', blockEvent, true);
+  window.removeEventListener('pointerdown', blockEvent, true);
+  window.removeEventListener('pointerup', blockEvent, true);
+  window.removeEventListener('keydown', handleKeydown, true);
+
+  console.log('Flow Recorder: Element picker stopped');
+}
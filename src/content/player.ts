@@ -1,146 +1,110 @@
-import type { RecordedStep, ElementSelector } from '../types';
+import type {
+  CaptchaOutcome,
+  CaptchaPause,
+  RecordedStep,
+  StepExecutionPayload,
+  ElementSelector,
+  StepResult,
+  StepAssertion,
+  AssertionKind,
+  ExtractedValue,
+  InputBackendKind,
+  TypingOptions,
+} from '../types';
+import { getBoundingBox } from '../utils/selectors';
+import {
+  attributeSelector,
+  deepQuerySelectorAll,
+  describeNotFound,
+  findElement,
+  findElementWithRetry,
+  isElementVisible,
+  isPrimaryMatch,
+  type ElementMatch,
+} from '../utils/locator';
+import { DEFAULT_CAPTCHA_TIMEOUT, DEFAULT_STEP_POLICY, DEFAULT_TYPING_OPTIONS } from '../utils/policy';
+import { sendToBackground } from '../utils/messaging';
+import { LOOP_ITEM_ATTRIBUTE, getLoopVariable } from '../utils/blocks';
+import { typeText } from './typing';
+import { sendTrustedInput, toTopViewport } from './trusted-input';
+import { armDialogs, collectDialogs, waitForDialog } from './dialogs';
+import { waitForActionable, waitForPageStable } from './auto-wait';
+import { detectCaptcha } from './captcha';
+import { generateShadowAwareSelector } from './recorder';
 
 // ============================================================================
-// CAPTCHA DETECTION
+// CAPTCHA HANDLING
 // ============================================================================
 
-const CAPTCHA_SELECTORS = [
-  '.g-recaptcha', 'iframe[src*="recaptcha"]', 'iframe[title*="reCAPTCHA"]',
-  '#recaptcha', '[data-sitekey]', '.h-captcha', 'iframe[src*="hcaptcha"]',
-  '.cf-turnstile', 'iframe[src*="challenges.cloudflare.com"]',
-  '#funcaptcha', 'iframe[src*="funcaptcha"]',
-  '[class*="captcha"]', '[id*="captcha"]', 'img[src*="captcha"]',
-];
-
-let lastCaptchaAlertTime = 0;
-const CAPTCHA_COOLDOWN_MS = 30000;
-
-export function detectCaptcha(): { detected: boolean; type: string | null } {
-  if (Date.now() - lastCaptchaAlertTime < CAPTCHA_COOLDOWN_MS) {
-    return { detected: false, type: null };
-  }
-
-  for (const selector of CAPTCHA_SELECTORS) {
-    try {
-      const elements = document.querySelectorAll(selector);
-      for (const element of elements) {
-        const rect = element.getBoundingClientRect();
-        const style = window.getComputedStyle(element);
-        if (rect.width > 0 && rect.height > 0 && style.display !== 'none' && style.visibility !== 'hidden') {
-          let type = 'CAPTCHA';
-          if (selector.includes('recaptcha')) type = 'reCAPTCHA';
-          else if (selector.includes('hcaptcha')) type = 'hCaptcha';
-          else if (selector.includes('cloudflare')) type = 'Cloudflare Turnstile';
-          return { detected: true, type };
-        }
-      }
-    } catch { /* ignore */ }
-  }
-  return { detected: false, type: null };
+function formatRemaining(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 }
 
-function showCaptchaAlert(captchaType: string): Promise<boolean> {
+/**
+ * Pause until the user solves a CAPTCHA: playback resumes by itself once no unsolved
+ * challenge is left on the page. A bar at the top of the page (which keeps the challenge
+ * usable) lets the user continue or stop early.
+ */
+function waitForCaptcha(captchaType: string, timeoutMs: number): Promise<CaptchaOutcome> {
   return new Promise((resolve) => {
-    const overlay = document.createElement('div');
-    overlay.id = 'flow-recorder-captcha-overlay';
-    overlay.style.cssText = `position:fixed;top:0;left:0;width:100%;height:100%;background:rgba(0,0,0,0.7);z-index:999999;display:flex;align-items:center;justify-content:center;font-family:sans-serif;`;
-    overlay.innerHTML = `
-      <div style="background:white;border-radius:12px;padding:24px 32px;max-width:400px;text-align:center;">
-        <div style="font-size:48px;">🤖</div>
-        <h2 style="margin:12px 0;color:#333;">CAPTCHA Detectado</h2>
-        <p style="color:#666;font-size:14px;">Detectamos um <strong>${captchaType}</strong>. Clique em "Vou Resolver" para ter 20 segundos.</p>
-        <div id="countdown" style="display:none;font-size:32px;font-weight:bold;color:#4CAF50;margin:16px 0;"></div>
-        <div id="buttons" style="display:flex;gap:12px;justify-content:center;margin-top:16px;">
-          <button id="resolve" style="background:#4CAF50;color:white;border:none;padding:12px 24px;border-radius:6px;cursor:pointer;">Vou Resolver</button>
-          <button id="stop" style="background:#f44336;color:white;border:none;padding:12px 24px;border-radius:6px;cursor:pointer;">Parar</button>
-        </div>
-      </div>
+    const bar = document.createElement('div');
+    bar.setAttribute('data-flow-recorder', 'captcha');
+    bar.style.cssText = `position:fixed;top:0;left:0;right:0;z-index:2147483647;display:flex;align-items:center;gap:12px;padding:10px 16px;background:#1f2937;color:white;font:14px sans-serif;box-shadow:0 2px 8px rgba(0,0,0,0.3);`;
+    bar.innerHTML = `
+      <span style="font-size:20px;">🤖</span>
+      <span style="flex:1;">Playback is paused: solve the <strong></strong> to continue. It resumes by itself once solved (<span data-remaining></span> left).</span>
+      <button data-action="continue" style="background:#4CAF50;color:white;border:none;padding:6px 14px;border-radius:4px;cursor:pointer;">Continue</button>
+      <button data-action="stop" style="background:#f44336;color:white;border:none;padding:6px 14px;border-radius:4px;cursor:pointer;">Stop playback</button>
     `;
-    document.body.appendChild(overlay);
-
-    overlay.querySelector('#resolve')?.addEventListener('click', () => {
-      (overlay.querySelector('#buttons') as HTMLElement).style.display = 'none';
-      const countdown = overlay.querySelector('#countdown') as HTMLElement;
-      countdown.style.display = 'block';
-      let seconds = 20;
-      countdown.textContent = String(seconds);
-      const interval = setInterval(() => {
-        seconds--;
-        countdown.textContent = String(seconds);
-        if (seconds <= 0) {
-          clearInterval(interval);
-          overlay.remove();
-          lastCaptchaAlertTime = Date.now();
-          resolve(true);
-        }
-      }, 1000);
-    });
-
-    overlay.querySelector('#stop')?.addEventListener('click', () => {
-      overlay.remove();
-      resolve(false);
-    });
+    bar.querySelector('strong')!.textContent = captchaType;
+    const remaining = bar.querySelector('[data-remaining]') as HTMLElement;
+    document.body.appendChild(bar);
+
+    const startTime = Date.now();
+    const finish = (outcome: CaptchaOutcome) => {
+      clearInterval(interval);
+      bar.remove();
+      console.log(`Flow Recorder: CAPTCHA pause ended (${outcome})`);
+      resolve(outcome);
+    };
+
+    const check = () => {
+      const elapsed = Date.now() - startTime;
+      remaining.textContent = formatRemaining(timeoutMs - elapsed);
+      if (!detectCaptcha().detected) finish('solved');
+      else if (elapsed >= timeoutMs) finish('timeout');
+    };
+    const interval = setInterval(check, 500);
+    check();
+
+    bar.querySelector('[data-action="continue"]')?.addEventListener('click', () => finish('continued'));
+    bar.querySelector('[data-action="stop"]')?.addEventListener('click', () => finish('stopped'));
   });
 }
 
-// ============================================================================
-// DEEP QUERY SELECTOR - Traverses Shadow DOM
-// ============================================================================
-
 /**
- * Query selector that traverses ALL shadow roots recursively
+ * Wait for a CAPTCHA on the page to be solved before a step runs, asking the service worker
+ * to notify the user. Returns the pause, or undefined when there was no CAPTCHA.
  */
-function deepQuerySelector(selector: string, root: Document | Element | ShadowRoot = document): Element | null {
-  // Try in current root
-  try {
-    const element = root.querySelector(selector);
-    if (element) return element;
-  } catch { /* invalid selector */ }
-
-  // Search in all shadow roots
-  const allElements = root.querySelectorAll('*');
-  for (const el of allElements) {
-    if ((el as HTMLElement).shadowRoot) {
-      const found = deepQuerySelector(selector, (el as HTMLElement).shadowRoot!);
-      if (found) return found;
-    }
-  }
-
-  return null;
-}
+async function handleCaptcha(timeoutMs: number): Promise<CaptchaPause | undefined> {
+  // Challenges in frames show up as iframes of the top frame, which handles them
+  if (timeoutMs <= 0 || window !== window.top) return undefined;
+  const captcha = detectCaptcha();
+  if (!captcha.detected) return undefined;
 
-/**
- * Find element using shadow host path (format: "host1 >>> host2 >>> target")
- */
-function findByShadowPath(hostPath: string, targetSelector: string): Element | null {
-  const hosts = hostPath.split(' >>> ').map(s => s.trim());
-  let currentRoot: Document | ShadowRoot = document;
-
-  for (const hostSelector of hosts) {
-    const hostElement: Element | null = currentRoot.querySelector(hostSelector);
-    if (!hostElement || !(hostElement as HTMLElement).shadowRoot) {
-      console.log('Flow Recorder: Shadow host not found:', hostSelector);
-      return null;
-    }
-    currentRoot = (hostElement as HTMLElement).shadowRoot!;
-  }
+  const type = captcha.type || 'CAPTCHA';
+  console.log(`Flow Recorder: ${type} detected, waiting for it to be solved`);
+  sendToBackground('CAPTCHA_DETECTED', { type }).catch(() => {});
 
-  // Now search in the final shadow root
-  return currentRoot.querySelector(targetSelector);
+  const startTime = Date.now();
+  const outcome = await waitForCaptcha(type, timeoutMs);
+  return { type, waited: Date.now() - startTime, outcome };
 }
 
-/**
- * Check if element is visible and interactable
- */
-function isElementVisible(element: Element): boolean {
-  const rect = element.getBoundingClientRect();
-  if (rect.width === 0 || rect.height === 0) return false;
-
-  const style = window.getComputedStyle(element);
-  if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') return false;
-
-  return true;
-}
+// ============================================================================
+// ELEMENT FINDER - Lookups go through the shared locator engine
+// ============================================================================
 
 /**
  * Wait for element to be visible with timeout
@@ -154,108 +118,12 @@ async function waitForVisible(element: Element, timeoutMs: number = 5000): Promi
   return false;
 }
 
-// ============================================================================
-// ELEMENT FINDER - Multiple strategies with Shadow DOM support
-// ============================================================================
-
-function findElement(selector: ElementSelector): Element | null {
-  console.log('Flow Recorder: Finding element:', selector);
-
-  // Strategy 1: Check for shadow host path
-  const shadowPath = selector.attributes['data-shadow-host-path'];
-  if (shadowPath) {
-    console.log('Flow Recorder: Using shadow path:', shadowPath);
-    const element = findByShadowPath(shadowPath, selector.css);
-    if (element) {
-      console.log('Flow Recorder: Found via shadow path');
-      return element;
-    }
-  }
-
-  // Strategy 2: Deep CSS selector (traverses shadow DOM)
-  const byCss = deepQuerySelector(selector.css);
-  if (byCss) {
-    console.log('Flow Recorder: Found via deep CSS');
-    return byCss;
-  }
-
-  // Strategy 3: XPath (doesn't work in shadow DOM, but try anyway)
-  try {
-    const result = document.evaluate(selector.xpath, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
-    if (result.singleNodeValue) {
-      console.log('Flow Recorder: Found via XPath');
-      return result.singleNodeValue as Element;
-    }
-  } catch { /* ignore */ }
-
-  // Strategy 4: By ID (with deep search)
-  if (selector.attributes.id) {
-    const byId = document.getElementById(selector.attributes.id) || deepQuerySelector(`#${selector.attributes.id}`);
-    if (byId) {
-      console.log('Flow Recorder: Found via ID');
-      return byId;
-    }
-  }
-
-  // Strategy 5: By name attribute
-  if (selector.attributes.name) {
-    const byName = deepQuerySelector(`[name="${selector.attributes.name}"]`);
-    if (byName) {
-      console.log('Flow Recorder: Found via name');
-      return byName;
-    }
-  }
-
-  // Strategy 6: By placeholder
-  if (selector.attributes.placeholder) {
-    const byPlaceholder = deepQuerySelector(`[placeholder="${selector.attributes.placeholder}"]`);
-    if (byPlaceholder) {
-      console.log('Flow Recorder: Found via placeholder');
-      return byPlaceholder;
-    }
-  }
-
-  // Strategy 7: By aria-label
-  if (selector.attributes['aria-label']) {
-    const byAria = deepQuerySelector(`[aria-label="${selector.attributes['aria-label']}"]`);
-    if (byAria) {
-      console.log('Flow Recorder: Found via aria-label');
-      return byAria;
-    }
-  }
-
-  // Strategy 8: By data-testid
-  if (selector.attributes['data-testid']) {
-    const byTestId = deepQuerySelector(`[data-testid="${selector.attributes['data-testid']}"]`);
-    if (byTestId) {
-      console.log('Flow Recorder: Found via data-testid');
-      return byTestId;
-    }
-  }
-
-  // Strategy 9: By text content
-  if (selector.text) {
-    const allByTag = Array.from(document.querySelectorAll(selector.tagName));
-    for (const el of allByTag) {
-      if (el.textContent?.trim() === selector.text) {
-        console.log('Flow Recorder: Found via text content');
-        return el;
-      }
-    }
-  }
-
-  console.log('Flow Recorder: Element not found with any strategy');
-  return null;
-}
-
-async function findElementWithRetry(selector: ElementSelector, maxAttempts: number = 10, intervalMs: number = 500): Promise<Element | null> {
-  for (let i = 0; i < maxAttempts; i++) {
-    const element = findElement(selector);
-    if (element) return element;
-    console.log(`Flow Recorder: Retry ${i + 1}/${maxAttempts}`);
-    await new Promise(r => setTimeout(r, intervalMs));
-  }
-  return null;
+/**
+ * Fresh selector for an element only a fallback lookup found, so the stored step can be healed
+ */
+function getHealedTarget(selector: ElementSelector, match: ElementMatch): ElementSelector | undefined {
+  if (isPrimaryMatch(selector, match)) return undefined;
+  return { ...generateShadowAwareSelector(match.element), boundingBox: getBoundingBox(match.element) };
 }
 
 // ============================================================================
@@ -269,13 +137,34 @@ function highlightElement(element: Element): () => void {
   return () => { el.style.outline = originalOutline; };
 }
 
-function simulateClick(element: Element, position?: { x: number; y: number }): void {
+/**
+ * Where a recorded click hit its element, relative to the element's top-left corner, so
+ * playback clicks the same spot wherever the element is now (undefined when not known)
+ */
+function getClickOffset(step: RecordedStep): { x: number; y: number } | undefined {
+  const box = step.target.boundingBox;
+  if (!step.position || !box) return undefined;
+  const x = step.position.x - box.x;
+  const y = step.position.y - box.y;
+  return x >= 0 && y >= 0 && x <= box.width && y <= box.height ? { x, y } : undefined;
+}
+
+/**
+ * Viewport point at an offset inside an element as it is laid out now (its centre without one)
+ */
+function getClickPoint(element: Element, offset?: { x: number; y: number }): { x: number; y: number } {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: rect.left + Math.min(offset?.x ?? rect.width / 2, rect.width),
+    y: rect.top + Math.min(offset?.y ?? rect.height / 2, rect.height),
+  };
+}
+
+function simulateClick(element: Element, offset?: { x: number; y: number }): void {
   const el = element as HTMLElement;
   el.scrollIntoView({ behavior: 'instant', block: 'center' });
 
-  const rect = el.getBoundingClientRect();
-  const x = position?.x ?? rect.left + rect.width / 2;
-  const y = position?.y ?? rect.top + rect.height / 2;
+  const { x, y } = getClickPoint(el, offset);
 
   console.log('Flow Recorder: Clicking at', x, y);
 
@@ -306,17 +195,12 @@ function simulateClick(element: Element, position?: { x: number; y: number }): v
   }
 }
 
-function simulateInput(element: Element, value: string): void {
+/**
+ * Find the text field an input step enters its value in: the element itself, a field inside it
+ * (or its shadow root), or the field that has focus.
+ */
+function findTextInput(element: Element): HTMLInputElement | HTMLTextAreaElement | null {
   const el = element as HTMLElement;
-  el.scrollIntoView({ behavior: 'instant', block: 'center' });
-
-  console.log('Flow Recorder: Inputting value:', value);
-
-  // Click to focus
-  el.click?.();
-  el.focus?.();
-
-  // Find the actual input element
   let input: HTMLInputElement | HTMLTextAreaElement | null = null;
 
   if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
@@ -337,9 +221,28 @@ function simulateInput(element: Element, value: string): void {
     }
   }
 
-  if (input) {
-    input.focus();
+  return input;
+}
+
+/** Click and focus an input step's target, returning the text field to enter the value in. */
+function focusTextInput(element: Element): HTMLInputElement | HTMLTextAreaElement | null {
+  const el = element as HTMLElement;
+  el.scrollIntoView({ behavior: 'instant', block: 'center' });
+
+  // Click to focus
+  el.click?.();
+  el.focus?.();
 
+  const input = findTextInput(el);
+  input?.focus();
+  return input;
+}
+
+function simulateInput(element: Element, value: string): void {
+  console.log('Flow Recorder: Inputting value:', value);
+  const input = focusTextInput(element);
+
+  if (input) {
     // Use native setter to bypass framework proxies
     const proto = input instanceof HTMLInputElement ? HTMLInputElement.prototype : HTMLTextAreaElement.prototype;
     const setter = Object.getOwnPropertyDescriptor(proto, 'value')?.set;
@@ -361,6 +264,22 @@ function simulateInput(element: Element, value: string): void {
   }
 }
 
+/**
+ * Type a value key by key, for fields that react to individual keystrokes
+ * (autocomplete, input masks, per-key validation).
+ */
+async function simulateTyping(element: Element, value: string, keyDelay: number): Promise<void> {
+  console.log('Flow Recorder: Typing value:', value);
+  const input = focusTextInput(element);
+  if (!input) {
+    console.error('Flow Recorder: Could not find input element');
+    return;
+  }
+
+  await typeText(input, value, keyDelay);
+  console.log('Flow Recorder: Value typed:', input.value);
+}
+
 function simulateSelect(element: Element, value: string): void {
   if (element instanceof HTMLSelectElement) {
     element.focus();
@@ -392,74 +311,502 @@ function simulateScroll(position: { x: number; y: number }): void {
   window.scrollTo({ left: position.x, top: position.y, behavior: 'smooth' });
 }
 
+// ============================================================================
+// INPUT BACKENDS
+// ============================================================================
+
+/** How the executor clicks, enters text and presses keys on a located element. */
+interface InputBackend {
+  // `offset` is the point to click relative to the element's top-left corner (default: centre)
+  click(element: Element, offset?: { x: number; y: number }): Promise<void>;
+  input(element: Element, value: string, typing: Partial<TypingOptions>): Promise<void>;
+  keypress(element: Element, key: string): Promise<void>;
+}
+
+/** Synthetic DOM events dispatched from the page (isTrusted=false). */
+const syntheticInput: InputBackend = {
+  async click(element, offset) {
+    simulateClick(element, offset);
+  },
+  async input(element, value, typing) {
+    if (typing.mode === 'keystrokes') {
+      await simulateTyping(element, value, typing.keyDelay ?? DEFAULT_TYPING_OPTIONS.keyDelay);
+    } else {
+      simulateInput(element, value);
+    }
+  },
+  async keypress(element, key) {
+    simulateKeypress(element, key);
+  },
+};
+
+/**
+ * Trusted events (isTrusted=true) dispatched by the service worker through chrome.debugger,
+ * for sites that ignore synthetic events and features that require a user gesture.
+ */
+const trustedInput: InputBackend = {
+  async click(element, offset) {
+    // Where the element is now; it was just scrolled into view
+    const { x, y } = getClickPoint(element, offset);
+    const point = toTopViewport(x, y);
+    console.log('Flow Recorder: Trusted click at', point.x, point.y);
+    await sendTrustedInput({ kind: 'click', ...point });
+  },
+  async input(element, value, typing) {
+    await trustedInput.click(element);
+    const input = findTextInput(element);
+    if (!input) throw new Error('Could not find input element');
+
+    // Select the current content so the entered text replaces it
+    input.focus();
+    input.select();
+    if (!value) {
+      if (input.value) await sendTrustedInput({ kind: 'key', key: 'Backspace' });
+      return;
+    }
+
+    await sendTrustedInput(
+      typing.mode === 'keystrokes'
+        ? { kind: 'type', text: value, keyDelay: typing.keyDelay ?? DEFAULT_TYPING_OPTIONS.keyDelay }
+        : { kind: 'insert-text', text: value }
+    );
+  },
+  async keypress(element, key) {
+    (element as HTMLElement).focus?.();
+    await sendTrustedInput({ kind: 'key', key });
+  },
+};
+
+const INPUT_BACKENDS: Record<InputBackendKind, InputBackend> = {
+  synthetic: syntheticInput,
+  debugger: trustedInput,
+};
+
+// ============================================================================
+// ASSERTIONS
+// ============================================================================
+
+const ASSERTION_POLL_MS = 250;
+
+/**
+ * Evaluates an assertion once; returns a failure message, or null when it passes
+ */
+type AssertionEvaluator = (assertion: StepAssertion, target: ElementSelector) => string | null;
+
+/**
+ * Compare an actual value against the expected one using the assertion operator
+ */
+function compareValue(label: string, actual: string, assertion: StepAssertion): string | null {
+  const expected = assertion.expected ?? '';
+  const operator = assertion.operator || 'equals';
+
+  switch (operator) {
+    case 'equals':
+      if (actual === expected) return null;
+      break;
+    case 'contains':
+      if (actual.includes(expected)) return null;
+      break;
+    case 'matches':
+      try {
+        if (new RegExp(expected).test(actual)) return null;
+      } catch {
+        return `Invalid regular expression: ${expected}`;
+      }
+      break;
+  }
+
+  return `Expected ${label} to ${operator === 'matches' ? 'match' : operator === 'contains' ? 'contain' : 'equal'} "${expected}" but got "${actual.substring(0, 100)}"`;
+}
+
+function getElementValue(element: Element): string | null {
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
+    return element.value;
+  }
+  const inner = element.querySelector('input, textarea, select') || element.shadowRoot?.querySelector('input, textarea, select');
+  return inner ? (inner as HTMLInputElement).value : null;
+}
+
+const ASSERTION_EVALUATORS: Record<AssertionKind, AssertionEvaluator> = {
+  exists: (_assertion, target) => {
+    return findElement(target) ? null : 'Element does not exist';
+  },
+
+  visible: (_assertion, target) => {
+    const element = findElement(target);
+    if (!element) return 'Element does not exist';
+    return isElementVisible(element) ? null : 'Element is not visible';
+  },
+
+  text: (assertion, target) => {
+    const element = findElement(target);
+    if (!element) return 'Element does not exist';
+    return compareValue('text', element.textContent?.trim() || '', assertion);
+  },
+
+  attribute: (assertion, target) => {
+    if (!assertion.attribute) return 'No attribute name given';
+    const element = findElement(target);
+    if (!element) return 'Element does not exist';
+    const value = element.getAttribute(assertion.attribute);
+    if (value === null) return `Element has no "${assertion.attribute}" attribute`;
+    return compareValue(`attribute "${assertion.attribute}"`, value, assertion);
+  },
+
+  value: (assertion, target) => {
+    const element = findElement(target);
+    if (!element) return 'Element does not exist';
+    const value = getElementValue(element);
+    if (value === null) return 'Element has no input value';
+    return compareValue('value', value, assertion);
+  },
+
+  count: (assertion, target) => {
+    const expected = parseInt(assertion.expected ?? '', 10);
+    if (isNaN(expected)) return `Invalid expected count: ${assertion.expected}`;
+    const count = deepQuerySelectorAll(target.css).length;
+    return count === expected ? null : `Expected ${expected} matching elements but found ${count}`;
+  },
+
+  url: (assertion) => compareValue('URL', window.location.href, assertion),
+
+  title: (assertion) => compareValue('title', document.title, assertion),
+};
+
+/**
+ * Evaluate an assertion, polling until it passes or the timeout expires
+ */
+async function evaluateAssertion(step: RecordedStep, timeoutMs: number): Promise<StepResult> {
+  if (!step.assertion) {
+    return { success: false, error: 'Assert step has no assertion' };
+  }
+
+  const evaluator = ASSERTION_EVALUATORS[step.assertion.kind];
+  if (!evaluator) {
+    return { success: false, error: `Unknown assertion: ${step.assertion.kind}` };
+  }
+
+  const start = Date.now();
+  let failure = evaluator(step.assertion, step.target);
+  while (failure && Date.now() - start < timeoutMs) {
+    await new Promise(r => setTimeout(r, ASSERTION_POLL_MS));
+    failure = evaluator(step.assertion, step.target);
+  }
+
+  if (failure) {
+    console.error('Flow Recorder: Assertion failed:', failure);
+    const element = step.target.css || step.target.xpath ? findElement(step.target) : null;
+    return {
+      success: false,
+      error: `Assertion failed: ${failure}`,
+      targetRect: element ? getBoundingBox(element) : undefined,
+    };
+  }
+
+  console.log('Flow Recorder: Assertion passed:', step.assertion.kind);
+  return { success: true };
+}
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+/**
+ * Evaluate a condition step; it succeeds either way and reports which branch to take
+ */
+async function evaluateCondition(step: RecordedStep): Promise<StepResult> {
+  const condition = step.condition;
+  if (!condition) {
+    return { success: false, error: 'Condition step has no condition' };
+  }
+
+  // Conditions reuse the assertion checks, optionally negated
+  const evaluator = ASSERTION_EVALUATORS[condition.kind];
+  const isMet = () => (evaluator(condition, step.target) === null) !== !!condition.negate;
+
+  const start = Date.now();
+  let met = isMet();
+  while (!met && Date.now() - start < (condition.timeout || 0)) {
+    await new Promise(r => setTimeout(r, ASSERTION_POLL_MS));
+    met = isMet();
+  }
+
+  console.log('Flow Recorder: Condition', condition.kind, met ? 'met' : 'not met');
+  return { success: true, conditionMet: met };
+}
+
+// ============================================================================
+// LOOPS
+// ============================================================================
+
+/**
+ * Decide whether a while or for-each loop runs the given iteration; for-each loops
+ * mark the current element so steps in the body can target it
+ */
+function evaluateLoop(step: RecordedStep, iteration: number): StepResult {
+  const loop = step.loop;
+  if (!loop) {
+    return { success: false, error: 'Loop step has no loop settings' };
+  }
+
+  if (loop.kind === 'while') {
+    const element = findElement(step.target);
+    return { success: true, conditionMet: !!element, targetRect: element ? getBoundingBox(element) : undefined };
+  }
+
+  // Only the current element of this loop carries the marker
+  const name = getLoopVariable(step);
+  deepQuerySelectorAll(attributeSelector(LOOP_ITEM_ATTRIBUTE, name)).forEach(el => el.removeAttribute(LOOP_ITEM_ATTRIBUTE));
+
+  const items = deepQuerySelectorAll(step.target.css);
+  const item = items[iteration];
+  if (!item) {
+    console.log(`Flow Recorder: For-each loop done after ${iteration} of ${items.length} elements`);
+    return { success: true, conditionMet: false, itemCount: items.length };
+  }
+
+  item.setAttribute(LOOP_ITEM_ATTRIBUTE, name);
+  return {
+    success: true,
+    conditionMet: true,
+    itemText: (item.textContent || '').trim(),
+    itemCount: items.length,
+    targetRect: getBoundingBox(item),
+  };
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * Read the rows of a table as objects keyed by column header; the header comes from
+ * the <thead> or the first row, and columns without one are numbered from 1
+ */
+function readTable(table: HTMLTableElement): Record<string, string>[] {
+  const rows = Array.from(table.rows);
+  const cellTexts = (row: HTMLTableRowElement) => Array.from(row.cells).map(cell => (cell.textContent || '').trim());
+
+  const headerRow = table.tHead?.rows[0] ?? (rows[0]?.querySelector('th') ? rows[0] : undefined);
+  const headers = headerRow ? cellTexts(headerRow) : [];
+  const bodyRows = rows.filter(row => row !== headerRow && row.parentElement !== table.tHead && row.parentElement !== table.tFoot);
+
+  return bodyRows.map(row => Object.fromEntries(
+    cellTexts(row).map((text, i) => [headers[i] || String(i + 1), text])
+  ));
+}
+
+/**
+ * Read the text, an attribute, the input value or the table at an extract step's target
+ */
+async function evaluateExtract(step: RecordedStep, timeoutMs: number): Promise<StepResult> {
+  const extract = step.extract;
+  if (!extract) {
+    return { success: false, error: 'Extract step has no extract settings' };
+  }
+
+  const { match, retries } = await findElementWithRetry(step.target, timeoutMs);
+  if (!match) {
+    return { success: false, error: describeNotFound(step.target), retries };
+  }
+  const element = match.element;
+  const lookup = {
+    matchedStrategy: match.strategy,
+    retries,
+    targetRect: getBoundingBox(element),
+    healedTarget: getHealedTarget(step.target, match),
+  };
+
+  let extracted: ExtractedValue;
+  switch (extract.source) {
+    case 'attribute': {
+      const value = element.getAttribute(extract.attribute || '');
+      if (value === null) {
+        return { success: false, error: `Element has no "${extract.attribute}" attribute`, ...lookup };
+      }
+      extracted = value;
+      break;
+    }
+    case 'value': {
+      const value = getElementValue(element);
+      if (value === null) {
+        return { success: false, error: 'Element has no input value', ...lookup };
+      }
+      extracted = value;
+      break;
+    }
+    case 'table': {
+      const table = element instanceof HTMLTableElement ? element : element.querySelector('table');
+      if (!table) {
+        return { success: false, error: 'No table found at the target', ...lookup };
+      }
+      extracted = readTable(table);
+      break;
+    }
+    default:
+      extracted = ((element as HTMLElement).innerText ?? element.textContent ?? '').trim();
+  }
+
+  console.log(`Flow Recorder: Extracted ${extract.variable}:`, extracted);
+  return { success: true, extracted, ...lookup };
+}
+
+// ============================================================================
+// DIALOGS
+// ============================================================================
+
+/**
+ * Wait for the native dialog a dialog step expects. It usually opened (and was answered)
+ * during the step before, which the dialog hook was armed for.
+ */
+async function evaluateDialog(step: RecordedStep, timeoutMs: number): Promise<StepResult> {
+  const kind = step.dialog?.kind;
+  if (!kind) {
+    return { success: false, error: 'Dialog step has no dialog settings' };
+  }
+
+  const record = await waitForDialog(kind, timeoutMs);
+  if (!record) {
+    return { success: false, error: `No ${kind} dialog opened` };
+  }
+  return { success: true };
+}
+
 // ============================================================================
 // STEP EXECUTOR
 // ============================================================================
 
-export async function executeStep(step: RecordedStep): Promise<boolean> {
+/**
+ * Execute a step once any CAPTCHA on the page is solved, answering native dialogs it opens
+ * as the service worker prepared and reporting both with the result
+ */
+export async function executeStep(step: StepExecutionPayload): Promise<StepResult> {
+  armDialogs(step);
+  const captcha = await handleCaptcha(step.captchaTimeout ?? DEFAULT_CAPTCHA_TIMEOUT);
+
+  let result: StepResult;
+  if (captcha?.outcome === 'stopped') {
+    result = { success: false, error: 'Playback stopped at CAPTCHA' };
+  } else if (captcha?.outcome === 'timeout') {
+    result = { success: false, error: `${captcha.type} was not solved in time` };
+  } else {
+    result = await runStep(step);
+  }
+
+  const dialogs = collectDialogs();
+  return { ...result, ...(captcha && { captcha }), ...(dialogs.length > 0 && { dialogs }) };
+}
+
+// Step types that wait for the page to settle before they run when playback uses auto-wait
+const AUTO_WAIT_STEP_TYPES: RecordedStep['type'][] = ['click', 'input', 'select', 'keypress', 'assert', 'extract'];
+
+async function runStep(step: StepExecutionPayload): Promise<StepResult> {
   console.log('Flow Recorder: Executing step:', step.type, step);
 
-  // Check for captcha
-  const captcha = detectCaptcha();
-  if (captcha.detected) {
-    const shouldContinue = await showCaptchaAlert(captcha.type || 'CAPTCHA');
-    if (!shouldContinue) return false;
+  // The service worker sends the step with its resolved policy
+  const timeout = step.policy?.timeout ?? DEFAULT_STEP_POLICY.timeout;
+
+  // With auto-wait, act once the page has settled rather than after the recorded delay
+  if (step.autoWait && AUTO_WAIT_STEP_TYPES.includes(step.type)) {
+    const settled = await waitForPageStable(step.autoWait.quietPeriod, timeout);
+    if (!settled) {
+      console.warn('Flow Recorder: Page did not settle, proceeding anyway');
+    }
   }
 
   // Handle wait and scroll steps
   if (step.type === 'wait' && step.delay) {
     await new Promise(r => setTimeout(r, step.delay));
-    return true;
+    return { success: true };
   }
 
   if (step.type === 'scroll' && step.scrollPosition) {
     simulateScroll(step.scrollPosition);
-    return true;
+    return { success: true };
+  }
+
+  if (step.type === 'assert') {
+    return evaluateAssertion(step, timeout);
+  }
+
+  if (step.type === 'condition') {
+    return evaluateCondition(step);
+  }
+
+  if (step.type === 'loop') {
+    return evaluateLoop(step, step.iteration ?? 0);
+  }
+
+  if (step.type === 'extract') {
+    return evaluateExtract(step, timeout);
+  }
+
+  if (step.type === 'dialog') {
+    return evaluateDialog(step, timeout);
   }
 
   // Find the target element
-  const element = await findElementWithRetry(step.target);
-  if (!element) {
+  const lookupStart = Date.now();
+  const { match, retries } = await findElementWithRetry(step.target, timeout);
+  if (!match) {
     console.error('Flow Recorder: Element not found');
-    return false;
+    return { success: false, error: describeNotFound(step.target), retries };
   }
-
-  // Wait for element to be visible
-  const visible = await waitForVisible(element);
-  if (!visible) {
-    console.warn('Flow Recorder: Element not visible, proceeding anyway');
+  const element = match.element;
+  // Taken before acting, which may change or remove the element
+  const healedTarget = getHealedTarget(step.target, match);
+  // Lookup details for the result; the rect is measured when the step ends
+  const lookup = () => ({ matchedStrategy: match.strategy, retries, targetRect: getBoundingBox(element), healedTarget });
+
+  const remaining = Math.max(timeout - (Date.now() - lookupStart), 100);
+  if (step.autoWait) {
+    // Act as soon as the element can take the action
+    element.scrollIntoView({ block: 'center' });
+    const blocker = await waitForActionable(element, remaining);
+    if (blocker) {
+      return { success: false, error: `Element ${blocker}`, ...lookup() };
+    }
+  } else {
+    // Wait for element to be visible
+    const visible = await waitForVisible(element, remaining);
+    if (!visible) {
+      console.warn('Flow Recorder: Element not visible, proceeding anyway');
+    }
   }
 
   // Highlight element
   const removeHighlight = highlightElement(element);
 
   // Scroll into view
-  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-  await new Promise(r => setTimeout(r, 300));
+  if (!step.autoWait) {
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    await new Promise(r => setTimeout(r, 300));
+  }
 
-  // Execute action
+  // Execute action through the flow's input backend
+  const input = INPUT_BACKENDS[step.inputBackend ?? 'synthetic'];
   try {
     switch (step.type) {
       case 'click':
-        simulateClick(element, step.position);
+        await input.click(element, getClickOffset(step));
         break;
       case 'input':
-        if (step.value !== undefined) simulateInput(element, step.value);
+        if (step.value !== undefined) await input.input(element, step.value, step.typing ?? {});
         break;
       case 'select':
         if (step.value !== undefined) simulateSelect(element, step.value);
         break;
       case 'keypress':
-        if (step.value) simulateKeypress(element, step.value);
+        if (step.value) await input.keypress(element, step.value);
         break;
     }
   } catch (error) {
     console.error('Flow Recorder: Error executing step:', error);
     removeHighlight();
-    return false;
+    return { success: false, error: String(error), ...lookup() };
   }
 
   setTimeout(removeHighlight, 500);
   console.log('Flow Recorder: Step completed');
-  return true;
+  return { success: true, ...lookup() };
 }
@@ -1,9 +1,11 @@
-import type { RecordedStep, StepType, ElementSelector } from '../types';
-import { generateElementSelector } from '../utils/selectors';
+import type { RecordedStep, StepType, ElementSelector, DialogRecord } from '../types';
+import { generateElementSelector, getBoundingBox } from '../utils/selectors';
 import { generateId } from '../utils/storage';
+import { onDialog, setDialogHook } from './dialogs';
 
 let isRecording = false;
 let lastEventTime = Date.now();
+let stopDialogListener: (() => void) | null = null;
 
 // Debounce tracking for input fields
 const inputDebounceTimers = new Map<Element, ReturnType<typeof setTimeout>>();
@@ -25,7 +27,7 @@ function recordStep(step: RecordedStep): void {
 }
 
 // Get the real target element using composedPath (works with Shadow DOM)
-function getRealTarget(event: Event): Element | null {
+export function getRealTarget(event: Event): Element | null {
   // composedPath() returns the full path including shadow DOM elements
   const path = event.composedPath();
 
@@ -88,7 +90,7 @@ function isInShadowDOM(element: Element): boolean {
 }
 
 // Generate selector with shadow DOM awareness
-function generateShadowAwareSelector(element: Element): ElementSelector {
+export function generateShadowAwareSelector(element: Element): ElementSelector {
   const baseSelector = generateElementSelector(element);
 
   // If element is in shadow DOM, add the host path
@@ -110,7 +112,7 @@ function createStep(type: StepType, element: Element, extras: Partial<RecordedSt
     id: generateId(),
     type,
     timestamp: Date.now(),
-    target: generateShadowAwareSelector(element),
+    target: { ...generateShadowAwareSelector(element), boundingBox: getBoundingBox(element) },
     delay: getDelay(),
     ...extras,
   };
@@ -227,6 +229,18 @@ function handleScroll(): void {
   }, 150);
 }
 
+// Record a native dialog with the user's answer; playback answers it the same way
+function handleDialog(dialog: DialogRecord): void {
+  recordStep({
+    id: generateId(),
+    type: 'dialog',
+    timestamp: Date.now(),
+    target: { css: '', xpath: '', tagName: '', attributes: {} },
+    delay: getDelay(),
+    dialog,
+  });
+}
+
 // Start recording
 export function startRecording(): void {
   if (isRecording) return;
@@ -241,6 +255,8 @@ export function startRecording(): void {
   document.addEventListener('change', handleInput, true);
   document.addEventListener('keydown', handleKeydown, true);
   window.addEventListener('scroll', handleScroll, true);
+  stopDialogListener = onDialog(handleDialog);
+  setDialogHook({ mode: 'record' });
 
   console.log('Flow Recorder: Recording started with Shadow DOM support');
 }
@@ -269,6 +285,9 @@ export function stopRecording(): void {
   document.removeEventListener('change', handleInput, true);
   document.removeEventListener('keydown', handleKeydown, true);
   window.removeEventListener('scroll', handleScroll, true);
+  stopDialogListener?.();
+  stopDialogListener = null;
+  setDialogHook({ mode: 'off' });
 
   if (scrollTimeout) {
     clearTimeout(scrollTimeout);
@@ -0,0 +1,28 @@
+import type { TrustedInputCommand } from '../types';
+import { sendToBackground } from '../utils/messaging';
+
+// Have the service worker dispatch input as trusted events through chrome.debugger
+export async function sendTrustedInput(command: TrustedInputCommand): Promise<void> {
+  const response = await sendToBackground<{ success: boolean; error?: string }>(
+    'DISPATCH_TRUSTED_INPUT',
+    command
+  );
+  if (!response?.success) {
+    throw new Error(response?.error || 'Trusted input failed');
+  }
+}
+
+// Convert a point in this frame's viewport to the top-level viewport, which trusted input uses.
+// Offsets of cross-origin parent frames cannot be read, so the point stays relative to the
+// outermost frame that is accessible.
+export function toTopViewport(x: number, y: number): { x: number; y: number } {
+  let win: Window = window;
+  while (win !== win.top && win.frameElement) {
+    const frame = win.frameElement;
+    const rect = frame.getBoundingClientRect();
+    x += rect.left + frame.clientLeft;
+    y += rect.top + frame.clientTop;
+    win = win.parent;
+  }
+  return { x, y };
+}
@@ -0,0 +1,143 @@
+// Character-by-character typing that produces the same event sequence as a person typing, so
+// autocomplete widgets, input masks and per-keystroke validators react as they would to a user
+
+import { getKeyInfo, type KeyInfo } from '../utils/keys';
+
+type TextInput = HTMLInputElement | HTMLTextAreaElement;
+
+const SHIFT_KEY = getKeyInfo('Shift');
+const BACKSPACE_KEY = getKeyInfo('Backspace');
+
+// Dispatch a keyboard event, returning false when a listener prevented its default action
+function dispatchKey(
+  input: TextInput,
+  type: 'keydown' | 'keypress' | 'keyup',
+  info: KeyInfo
+): boolean {
+  // keypress reports the character code instead of the key code
+  const charCode = info.key === 'Enter' ? 13 : info.key.codePointAt(0) || 0;
+  const keyCode = type === 'keypress' ? charCode : info.keyCode;
+
+  return input.dispatchEvent(
+    new KeyboardEvent(type, {
+      key: info.key,
+      code: info.code,
+      keyCode,
+      which: keyCode,
+      charCode: type === 'keypress' ? charCode : 0,
+      shiftKey: info.shift,
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+    })
+  );
+}
+
+// Set a value through the native setter, so framework-controlled inputs notice the change
+function setNativeValue(input: TextInput, value: string): void {
+  const proto =
+    input instanceof HTMLInputElement ? HTMLInputElement.prototype : HTMLTextAreaElement.prototype;
+  const setter = Object.getOwnPropertyDescriptor(proto, 'value')?.set;
+  if (setter) {
+    setter.call(input, value);
+  } else {
+    input.value = value;
+  }
+}
+
+// Selected range, or the end of the value for input types without selection support (e.g. email)
+function getSelectionRange(input: TextInput): [number, number] {
+  const { selectionStart, selectionEnd } = input;
+  if (selectionStart === null) return [input.value.length, input.value.length];
+  return [selectionStart, selectionEnd ?? selectionStart];
+}
+
+function setCaret(input: TextInput, position: number): void {
+  try {
+    input.setSelectionRange(position, position);
+  } catch {
+    // Input types without selection support keep the caret at the end
+  }
+}
+
+// Change the text the way a keystroke does: beforeinput, the selection replaced with the text
+// (or the character before the caret deleted) and the caret placed after it, then input.
+// Nothing changes when a beforeinput listener cancels the edit.
+function editText(input: TextInput, inputType: string, text: string): void {
+  const data = text || null;
+  const beforeInput = new InputEvent('beforeinput', {
+    inputType,
+    data,
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+  });
+  if (!input.dispatchEvent(beforeInput)) return;
+
+  const [selectionStart, end] = getSelectionRange(input);
+  const start =
+    inputType === 'deleteContentBackward' && selectionStart === end
+      ? Math.max(0, selectionStart - 1)
+      : selectionStart;
+
+  const value = input.value.slice(0, start) + text + input.value.slice(end);
+  // Like the browser, stop inserting at the field's maximum length
+  if (text && input.maxLength >= 0 && value.length > input.maxLength) return;
+
+  setNativeValue(input, value);
+  setCaret(input, start + text.length);
+  input.dispatchEvent(new InputEvent('input', { inputType, data, bubbles: true, composed: true }));
+}
+
+// Press and release a key, applying its edit unless keydown was cancelled
+function pressKey(input: TextInput, info: KeyInfo, edit?: () => void, printable = true): void {
+  if (info.shift) dispatchKey(input, 'keydown', SHIFT_KEY);
+
+  if (dispatchKey(input, 'keydown', info)) {
+    // keypress is only fired for keys that produce a character
+    if (!printable || dispatchKey(input, 'keypress', info)) edit?.();
+  }
+  dispatchKey(input, 'keyup', info);
+
+  if (info.shift) dispatchKey(input, 'keyup', SHIFT_KEY);
+}
+
+// Type a value into a text field key by key, replacing its current content, with a pause of
+// `keyDelay` ms between keystrokes
+export async function typeText(input: TextInput, value: string, keyDelay: number): Promise<void> {
+  const pause = () => new Promise((r) => setTimeout(r, keyDelay));
+  const backspace = () =>
+    pressKey(input, BACKSPACE_KEY, () => editText(input, 'deleteContentBackward', ''), false);
+
+  // Select the current content so the first keystroke replaces it, as after Ctrl+A
+  if (input.value) {
+    input.select();
+    const [start, end] = getSelectionRange(input);
+    if (start === end) {
+      // Without selection support the old content is deleted key by key
+      for (let i = input.value.length; i > 0 && input.value; i--) {
+        backspace();
+        await pause();
+      }
+    } else if (!value) {
+      backspace();
+    }
+  }
+
+  for (const char of value) {
+    const info = getKeyInfo(char);
+    if (char === '\n') {
+      // Enter only inserts a line break in multi-line fields
+      const edit =
+        input instanceof HTMLTextAreaElement
+          ? () => editText(input, 'insertLineBreak', '\n')
+          : undefined;
+      pressKey(input, info, edit);
+    } else {
+      pressKey(input, info, () => editText(input, 'insertText', char));
+    }
+    await pause();
+  }
+
+  input.dispatchEvent(new Event('change', { bubbles: true, composed: true }));
+}
@@ -1,15 +1,52 @@
-import { useState, useEffect } from 'react';
-import type { Flow, RecordedStep } from '../../types';
+import { Fragment, useState, useEffect } from 'react';
+import type {
+  ElementSelector,
+  Flow,
+  PlaybackState,
+  RecordedStep,
+  SelectorCheck,
+  StepBranch,
+} from '../../types';
 import { getFlows, saveFlow, deleteFlow, duplicateFlow, generateId } from '../../utils/storage';
 import { exportFlow, exportAllFlows, importFlow } from '../../utils/export';
+import {
+  findParentBlock,
+  findStep,
+  flattenSteps,
+  getBranchSteps,
+  insertStepAfter,
+  replaceStep,
+  setBranchSteps,
+} from '../../utils/blocks';
+import {
+  findCallPath,
+  findSubFlowCycle,
+  getCalledFlowIds,
+  getCallingFlows,
+} from '../../utils/subflows';
 import { StepList } from '../../components/StepList';
 import { PlaybackControls } from '../../components/PlaybackControls';
+import { VariablesPanel } from '../../components/VariablesPanel';
+import { InputSettings } from '../../components/InputSettings';
+import { AssertionForm } from '../../components/AssertionForm';
+import { ElementPicker } from '../../components/ElementPicker';
+import { SelectorValidator } from '../../components/SelectorValidator';
+import { RunHistory } from '../../components/RunHistory';
+import { HealLog } from '../../components/HealLog';
+import { SessionList } from '../../components/SessionList';
+import { ScheduleList } from '../../components/ScheduleList';
 
 export function Editor() {
   const [flows, setFlows] = useState<Flow[]>([]);
   const [selectedFlow, setSelectedFlow] = useState<Flow | null>(null);
   const [flowName, setFlowName] = useState('');
   const [loading, setLoading] = useState(true);
+  const [showAssertionForm, setShowAssertionForm] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+  const [showValidator, setShowValidator] = useState(false);
+  const [selectorChecks, setSelectorChecks] = useState<Record<string, SelectorCheck> | null>(null);
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
 
   // Get flowId from URL params
   const urlParams = new URLSearchParams(window.location.search);
@@ -39,12 +76,25 @@ export function Editor() {
     loadFlows();
   }, [initialFlowId]);
 
+  // Pick up flows changed elsewhere, e.g. step targets healed during playback
+  useEffect(() => {
+    const listener = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area !== 'local' || !changes.flows) return;
+      const savedFlows: Flow[] = changes.flows.newValue || [];
+      setFlows(savedFlows);
+      setSelectedFlow((current) => current && (savedFlows.find((f) => f.id === current.id) ?? current));
+    };
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, []);
+
   // Handle flow selection
   const handleSelectFlow = (flowId: string) => {
     const flow = flows.find((f) => f.id === flowId);
     if (flow) {
       setSelectedFlow(flow);
       setFlowName(flow.name);
+      setSelectorChecks(null);
       window.history.replaceState(null, '', `?flowId=${flowId}`);
     }
   };
@@ -59,6 +109,16 @@ export function Editor() {
     setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
   };
 
+  // Handle flow property changes (variables, dataset)
+  const handleUpdateFlow = async (updates: Partial<Flow>) => {
+    if (!selectedFlow) return;
+
+    const updatedFlow = { ...selectedFlow, ...updates };
+    await saveFlow(updatedFlow);
+    setSelectedFlow(updatedFlow);
+    setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
+  };
+
   // Handle step reorder
   const handleReorderSteps = async (newSteps: RecordedStep[]) => {
     if (!selectedFlow) return;
@@ -73,17 +133,37 @@ export function Editor() {
   const handleDeleteStep = async (stepId: string) => {
     if (!selectedFlow) return;
 
-    const newSteps = selectedFlow.steps.filter((s) => s.id !== stepId);
+    const newSteps = replaceStep(selectedFlow.steps, stepId, null);
     const updatedFlow = { ...selectedFlow, steps: newSteps };
     await saveFlow(updatedFlow);
     setSelectedFlow(updatedFlow);
     setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
   };
 
+  // Handle step edits from the inline step editor
+  const handleUpdateStep = async (step: RecordedStep) => {
+    if (!selectedFlow) return;
+
+    const newSteps = replaceStep(selectedFlow.steps, step.id, step);
+    const updatedFlow = { ...selectedFlow, steps: newSteps };
+    const cycle = findSubFlowCycle(updatedFlow, flows);
+    if (cycle) {
+      alert(`Flows cannot call each other in a cycle: ${cycle}`);
+      return;
+    }
+    await saveFlow(updatedFlow);
+    setSelectedFlow(updatedFlow);
+    setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
+  };
+
   // Handle flow delete
   const handleDeleteFlow = async () => {
     if (!selectedFlow) return;
-    if (!confirm(`Delete "${selectedFlow.name}"? This cannot be undone.`)) return;
+    const callers = getCallingFlows(selectedFlow.id, flows);
+    const usedBy = callers.length
+      ? `\nIt is run as a sub-flow by: ${callers.map((f) => f.name).join(', ')}.`
+      : '';
+    if (!confirm(`Delete "${selectedFlow.name}"? This cannot be undone.${usedBy}`)) return;
 
     await deleteFlow(selectedFlow.id);
     setFlows((prev) => prev.filter((f) => f.id !== selectedFlow.id));
@@ -105,6 +185,29 @@ export function Editor() {
     }
   };
 
+  // Add a step running another flow, after the selected step when there is one
+  const handleAddSubFlowStep = async (flowId: string) => {
+    if (!selectedFlow || !flowId) return;
+
+    const subFlowStep: RecordedStep = {
+      id: generateId(),
+      type: 'run-flow',
+      timestamp: Date.now(),
+      delay: 0,
+      target: { css: '', xpath: '', tagName: '', attributes: {} },
+      subFlow: { flowId },
+    };
+
+    const newSteps = selectedStepId
+      ? insertStepAfter(selectedFlow.steps, selectedStepId, subFlowStep)
+      : [...selectedFlow.steps, subFlowStep];
+    const updatedFlow = { ...selectedFlow, steps: newSteps };
+    await saveFlow(updatedFlow);
+    setSelectedFlow(updatedFlow);
+    setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
+    setSelectedStepId(subFlowStep.id);
+  };
+
   // Add a wait step
   const handleAddWaitStep = async () => {
     if (!selectedFlow) return;
@@ -138,6 +241,144 @@ export function Editor() {
     setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
   };
 
+  // Add a step extracting the text of the selected step's element into a variable, after the
+  // selected step when there is one
+  const handleAddExtractStep = async () => {
+    if (!selectedFlow) return;
+
+    const variable = prompt('Store the extracted value in variable:', 'value');
+    if (!variable?.trim()) return;
+
+    const selected = selectedStepId ? findStep(selectedFlow.steps, selectedStepId) : undefined;
+    const extractStep: RecordedStep = {
+      id: generateId(),
+      type: 'extract',
+      timestamp: Date.now(),
+      delay: 0,
+      target: selected?.target.css
+        ? { ...selected.target }
+        : { css: '', xpath: '', tagName: '', attributes: {} },
+      extract: { source: 'text', variable: variable.trim() },
+    };
+
+    const newSteps = selected
+      ? insertStepAfter(selectedFlow.steps, selected.id, extractStep)
+      : [...selectedFlow.steps, extractStep];
+    const updatedFlow = { ...selectedFlow, steps: newSteps };
+    await saveFlow(updatedFlow);
+    setSelectedFlow(updatedFlow);
+    setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
+    setSelectedStepId(extractStep.id);
+  };
+
+  // Add an assertion step built in the assertion form
+  const handleAddAssertionStep = async (assertStep: RecordedStep) => {
+    if (!selectedFlow) return;
+
+    const newSteps = [...selectedFlow.steps, assertStep];
+    const updatedFlow = { ...selectedFlow, steps: newSteps };
+    await saveFlow(updatedFlow);
+    setSelectedFlow(updatedFlow);
+    setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
+    setShowAssertionForm(false);
+  };
+
+  // Add a condition or loop block, wrapping the selected step in it when there is one
+  const handleAddBlockStep = async (type: 'condition' | 'loop') => {
+    if (!selectedFlow) return;
+
+    const selected = selectedStepId ? findStep(selectedFlow.steps, selectedStepId) : undefined;
+    const blockStep: RecordedStep = {
+      id: generateId(),
+      type,
+      timestamp: Date.now(),
+      delay: 0,
+      target: selected && type === 'condition'
+        ? { ...selected.target }
+        : { css: '', xpath: '', tagName: '', attributes: {} },
+      ...(type === 'condition'
+        ? { condition: { kind: 'exists' }, thenSteps: selected ? [selected] : [], elseSteps: [] }
+        : { loop: { kind: 'repeat', count: 2 }, loopSteps: selected ? [selected] : [] }),
+    };
+
+    const newSteps = selected
+      ? replaceStep(selectedFlow.steps, selected.id, blockStep)
+      : [...selectedFlow.steps, blockStep];
+    const updatedFlow = { ...selectedFlow, steps: newSteps };
+    await saveFlow(updatedFlow);
+    setSelectedFlow(updatedFlow);
+    setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
+    setSelectedStepId(blockStep.id);
+  };
+
+  // Move the selected step to the end of a branch of a block step
+  const handleMoveStepInto = async (blockId: string, branch: StepBranch) => {
+    if (!selectedFlow || !selectedStepId) return;
+
+    const selected = findStep(selectedFlow.steps, selectedStepId);
+    if (!selected) return;
+    // A block cannot be moved into itself or one of its own branches
+    if (flattenSteps([selected]).some((s) => s.id === blockId)) {
+      alert('A block cannot be moved into itself.');
+      return;
+    }
+
+    const withoutSelected = replaceStep(selectedFlow.steps, selectedStepId, null);
+    const block = findStep(withoutSelected, blockId);
+    if (!block) return;
+
+    const newBlock = setBranchSteps(block, branch, [...getBranchSteps(block, branch), selected]);
+    const newSteps = replaceStep(withoutSelected, blockId, newBlock);
+    const updatedFlow = { ...selectedFlow, steps: newSteps };
+    await saveFlow(updatedFlow);
+    setSelectedFlow(updatedFlow);
+    setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
+  };
+
+  // Move the selected nested step out of its block, placing it right after the block
+  const handleMoveStepOut = async () => {
+    if (!selectedFlow || !selectedStepId) return;
+
+    const selected = findStep(selectedFlow.steps, selectedStepId);
+    const parent = findParentBlock(selectedFlow.steps, selectedStepId);
+    if (!selected || !parent) return;
+
+    const withoutSelected = replaceStep(selectedFlow.steps, selectedStepId, null);
+    const newSteps = insertStepAfter(withoutSelected, parent.block.id, selected);
+    const updatedFlow = { ...selectedFlow, steps: newSteps };
+    await saveFlow(updatedFlow);
+    setSelectedFlow(updatedFlow);
+    setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
+  };
+
+  // Replace the target of a step with an element picked in the page
+  const handleRetargetStep = async (stepId: string, target: ElementSelector) => {
+    if (!selectedFlow) return;
+
+    const step = findStep(selectedFlow.steps, stepId);
+    if (!step) return;
+
+    const newSteps = replaceStep(selectedFlow.steps, stepId, { ...step, target });
+    const updatedFlow = { ...selectedFlow, steps: newSteps };
+    await saveFlow(updatedFlow);
+    setSelectedFlow(updatedFlow);
+    setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
+  };
+
+  // Insert a step created from an element picked in the page
+  const handleInsertStep = async (step: RecordedStep, index: number, afterStepId?: string) => {
+    if (!selectedFlow) return;
+
+    const newSteps = afterStepId
+      ? insertStepAfter(selectedFlow.steps, afterStepId, step)
+      : [...selectedFlow.steps.slice(0, index), step, ...selectedFlow.steps.slice(index)];
+    const updatedFlow = { ...selectedFlow, steps: newSteps };
+    await saveFlow(updatedFlow);
+    setSelectedFlow(updatedFlow);
+    setFlows((prev) => prev.map((f) => (f.id === updatedFlow.id ? updatedFlow : f)));
+    setSelectedStepId(step.id);
+  };
+
   // Handle export
   const handleExport = () => {
     if (selectedFlow) {
@@ -178,6 +419,20 @@ export function Editor() {
     input.click();
   };
 
+  // Step playback is currently at (highlighted live)
+  const currentStepId =
+    playback && playback.currentFlowId === selectedFlow?.id ? playback.currentStepId : null;
+  const selectedIsNested =
+    !!selectedFlow && !!selectedStepId && !!findParentBlock(selectedFlow.steps, selectedStepId);
+  // Sub-flow relations of the selected flow; flows that already call it cannot be called back
+  const calledFlows = selectedFlow
+    ? flows.filter((f) => getCalledFlowIds(selectedFlow).includes(f.id))
+    : [];
+  const callingFlows = selectedFlow ? getCallingFlows(selectedFlow.id, flows) : [];
+  const callableFlows = selectedFlow
+    ? flows.filter((f) => !findCallPath(f.id, selectedFlow.id, flows))
+    : [];
+
   if (loading) {
     return (
       <div className="editor">
@@ -218,6 +473,10 @@ export function Editor() {
       </header>
 
       <div className="editor-content">
+        <div style={{ marginBottom: '24px' }}>
+          <SessionList />
+        </div>
+
         {!selectedFlow ? (
           <div className="editor-empty">
             <h2>No flow selected</h2>
@@ -251,25 +510,180 @@ export function Editor() {
               <p style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>
                 Created: {new Date(selectedFlow.createdAt).toLocaleString()}
               </p>
+              {calledFlows.length > 0 && (
+                <p style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>
+                  Runs flows:{' '}
+                  {calledFlows.map((flow, i) => (
+                    <Fragment key={flow.id}>
+                      {i > 0 && ', '}
+                      <a
+                        href={`?flowId=${flow.id}`}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          handleSelectFlow(flow.id);
+                        }}
+                      >
+                        {flow.name}
+                      </a>
+                    </Fragment>
+                  ))}
+                </p>
+              )}
+              {callingFlows.length > 0 && (
+                <p style={{ color: 'var(--text-secondary)', fontSize: '14px' }}>
+                  Used as a sub-flow by:{' '}
+                  {callingFlows.map((flow, i) => (
+                    <Fragment key={flow.id}>
+                      {i > 0 && ', '}
+                      <a
+                        href={`?flowId=${flow.id}`}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          handleSelectFlow(flow.id);
+                        }}
+                      >
+                        {flow.name}
+                      </a>
+                    </Fragment>
+                  ))}
+                  {' '}(changes here apply to them too)
+                </p>
+              )}
+            </div>
+
+            <PlaybackControls
+              key={selectedFlow.id}
+              flowId={selectedFlow.id}
+              cursorStepId={selectedStepId}
+              onStateChange={setPlayback}
+            />
+
+            <div style={{ marginTop: '24px' }}>
+              <VariablesPanel flow={selectedFlow} onChange={handleUpdateFlow} />
             </div>
 
-            <PlaybackControls flowId={selectedFlow.id} />
+            <div style={{ marginTop: '24px' }}>
+              <InputSettings flow={selectedFlow} onChange={handleUpdateFlow} />
+            </div>
 
             <div style={{ marginTop: '24px' }}>
               <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
                 <h2 style={{ fontSize: '16px', fontWeight: '600' }}>
                   Steps ({selectedFlow.steps.length})
                 </h2>
-                <button className="btn btn-secondary btn-small" onClick={handleAddWaitStep}>
-                  + Add Wait Step
-                </button>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <button className="btn btn-secondary btn-small" onClick={() => setShowPicker(!showPicker)}>
+                    🎯 Picker
+                  </button>
+                  <button
+                    className="btn btn-secondary btn-small"
+                    onClick={() => setShowValidator(!showValidator)}
+                    title="Check that every step's target still resolves in a page"
+                  >
+                    ✓ Validate
+                  </button>
+                  <button className="btn btn-secondary btn-small" onClick={() => setShowAssertionForm(true)}>
+                    + Add Assertion
+                  </button>
+                  <button
+                    className="btn btn-secondary btn-small"
+                    onClick={handleAddExtractStep}
+                    title={
+                      selectedStepId
+                        ? "Extract a value from the selected step's element"
+                        : 'Add a step extracting a value from the page'
+                    }
+                  >
+                    + Add Extract
+                  </button>
+                  <button
+                    className="btn btn-secondary btn-small"
+                    onClick={() => handleAddBlockStep('condition')}
+                    title={
+                      selectedStepId
+                        ? 'Wrap the selected step in a condition'
+                        : 'Add a condition block'
+                    }
+                  >
+                    + Add Condition
+                  </button>
+                  <button
+                    className="btn btn-secondary btn-small"
+                    onClick={() => handleAddBlockStep('loop')}
+                    title={selectedStepId ? 'Repeat the selected step in a loop' : 'Add a loop block'}
+                  >
+                    + Add Loop
+                  </button>
+                  {selectedIsNested && (
+                    <button className="btn btn-secondary btn-small" onClick={handleMoveStepOut}>
+                      ⇤ Move Out of Block
+                    </button>
+                  )}
+                  <select
+                    className="input"
+                    value=""
+                    onChange={(e) => handleAddSubFlowStep(e.target.value)}
+                    disabled={callableFlows.length === 0}
+                    title="Run another flow as a step"
+                  >
+                    <option value="">+ Run Flow...</option>
+                    {callableFlows.map((flow) => (
+                      <option key={flow.id} value={flow.id}>
+                        {flow.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button className="btn btn-secondary btn-small" onClick={handleAddWaitStep}>
+                    + Add Wait Step
+                  </button>
+                </div>
               </div>
+              {showPicker && (
+                <ElementPicker
+                  steps={selectedFlow.steps}
+                  selectedStepId={selectedStepId}
+                  onRetarget={handleRetargetStep}
+                  onInsert={handleInsertStep}
+                />
+              )}
+              {showValidator && (
+                <SelectorValidator
+                  flow={selectedFlow}
+                  checks={selectorChecks}
+                  onChecked={setSelectorChecks}
+                />
+              )}
+              {showAssertionForm && (
+                <AssertionForm
+                  onSubmit={handleAddAssertionStep}
+                  onCancel={() => setShowAssertionForm(false)}
+                />
+              )}
               <StepList
                 steps={selectedFlow.steps}
                 onReorder={handleReorderSteps}
                 onDelete={handleDeleteStep}
+                selectedStepId={selectedStepId}
+                currentStepId={currentStepId}
+                onSelect={(stepId) => setSelectedStepId(stepId === selectedStepId ? null : stepId)}
+                onUpdate={handleUpdateStep}
+                onMoveInto={handleMoveStepInto}
+                flows={flows}
+                selectorChecks={selectorChecks}
               />
             </div>
+
+            <div style={{ marginTop: '24px' }}>
+              <ScheduleList flow={selectedFlow} />
+            </div>
+
+            <div style={{ marginTop: '24px' }}>
+              <RunHistory flow={selectedFlow} flows={flows} />
+            </div>
+
+            <div style={{ marginTop: '24px' }}>
+              <HealLog flow={selectedFlow} onChange={handleUpdateFlow} />
+            </div>
           </>
         )}
       </div>
@@ -1,14 +1,14 @@
 import { useState, useEffect } from 'react';
-import type { Flow, RecordingState, PlaybackState } from '../types';
+import type { Flow, RecordingState } from '../types';
 import { getFlows, deleteFlow } from '../utils/storage';
 import { sendToBackground } from '../utils/messaging';
 import { FlowList } from '../components/FlowList';
 import { RecordButton } from '../components/RecordButton';
+import { SessionList } from '../components/SessionList';
 
 export function Popup() {
   const [flows, setFlows] = useState<Flow[]>([]);
   const [isRecording, setIsRecording] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [stepCount, setStepCount] = useState(0);
@@ -19,11 +19,10 @@ export function Popup() {
       try {
         const [savedFlows, state] = await Promise.all([
           getFlows(),
-          sendToBackground<{ recording: RecordingState; playback: PlaybackState }>('GET_STATE'),
+          sendToBackground<{ recording: RecordingState }>('GET_STATE'),
         ]);
         setFlows(savedFlows);
         setIsRecording(state.recording.isRecording);
-        setIsPlaying(state.playback.isPlaying);
         setStepCount(state.recording.steps?.length || 0);
       } catch (err) {
         console.error('Failed to initialize:', err);
@@ -38,7 +37,7 @@ export function Popup() {
     // Poll for step count while recording
     const interval = setInterval(async () => {
       try {
-        const state = await sendToBackground<{ recording: RecordingState; playback: PlaybackState }>('GET_STATE');
+        const state = await sendToBackground<{ recording: RecordingState }>('GET_STATE');
         if (state.recording.isRecording) {
           setStepCount(state.recording.steps?.length || 0);
         }
@@ -73,26 +72,19 @@ export function Popup() {
     }
   };
 
-  // Handle play flow
+  // Handle play flow (a new session with the last used playback options)
   const handlePlay = async (flowId: string) => {
     try {
-      await sendToBackground('START_PLAYBACK', flowId);
-      setIsPlaying(true);
+      const response = await sendToBackground<{ success: boolean; error?: string }>(
+        'START_PLAYBACK',
+        { flowId }
+      );
+      setError(response.success ? null : `Could not start playback: ${response.error}`);
     } catch (error) {
       console.error('Failed to start playback:', error);
     }
   };
 
-  // Handle stop playback
-  const handleStopPlayback = async () => {
-    try {
-      await sendToBackground('STOP_PLAYBACK');
-      setIsPlaying(false);
-    } catch (error) {
-      console.error('Failed to stop playback:', error);
-    }
-  };
-
   // Handle delete flow
   const handleDelete = async (flowId: string) => {
     try {
@@ -132,13 +124,13 @@ export function Popup() {
         )}
         <RecordButton
           isRecording={isRecording}
-          isPlaying={isPlaying}
           stepCount={stepCount}
           onStart={handleStartRecording}
           onStop={handleStopRecording}
-          onStopPlayback={handleStopPlayback}
         />
 
+        <SessionList hideWhenIdle />
+
         <div className="flows-section">
           <h2>Saved Flows ({flows.length})</h2>
           <FlowList
@@ -146,7 +138,7 @@ export function Popup() {
             onPlay={handlePlay}
             onEdit={handleEdit}
             onDelete={handleDelete}
-            disabled={isRecording || isPlaying}
+            disabled={isRecording}
           />
         </div>
       </div>
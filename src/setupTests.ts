@@ -0,0 +1,2 @@
+// jsdom does not implement CSS.escape, which selector generation and lookups rely on
+import 'css.escape';
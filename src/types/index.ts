@@ -5,10 +5,180 @@ export interface ElementSelector {
   text?: string;
   tagName: string;
   attributes: Record<string, string>;
+  boundingBox?: BoundingBox;
+  // Ranked selectors generated at record time, tried before the ones above
+  candidates?: SelectorCandidate[];
+}
+
+// Kinds of selector candidates generated at record time
+export type CandidateStrategy = Extract<
+  LocatorStrategy,
+  'id' | 'data-testid' | 'role' | 'text' | 'attributes' | 'path'
+>;
+
+// One way of finding a recorded element, with how well it identified the element when recorded
+export interface SelectorCandidate {
+  strategy: CandidateStrategy;
+  // CSS selector; the role for role candidates and the text for text candidates
+  value: string;
+  // Accessible name of role candidates
+  name?: string;
+  // Elements it matched when recorded (1 means unique)
+  matches: number;
+  // How likely it is to survive changes to the page, from 0 to 100
+  score: number;
+  // Tried first at playback, even when it matches more than one element
+  pinned?: boolean;
+}
+
+// Element rectangle in CSS pixels, relative to the viewport
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 // Types of actions that can be recorded
-export type StepType = 'click' | 'input' | 'scroll' | 'navigation' | 'keypress' | 'select' | 'wait';
+export type StepType =
+  | 'click'
+  | 'input'
+  | 'scroll'
+  | 'navigation'
+  | 'keypress'
+  | 'select'
+  | 'wait'
+  | 'assert'
+  | 'condition'
+  | 'loop'
+  | 'run-flow'
+  | 'extract'
+  | 'dialog';
+
+// What an assert step checks
+export type AssertionKind =
+  | 'exists'
+  | 'visible'
+  | 'text'
+  | 'attribute'
+  | 'value'
+  | 'count'
+  | 'url'
+  | 'title';
+
+// How an assertion compares the actual value against the expected one
+export type AssertionOperator = 'equals' | 'contains' | 'matches';
+
+// Configuration of an assert step
+export interface StepAssertion {
+  kind: AssertionKind;
+  operator?: AssertionOperator;
+  expected?: string;
+  attribute?: string;
+}
+
+// What a condition step checks to choose its branch
+export type ConditionKind = 'exists' | 'visible' | 'text' | 'url';
+
+// Configuration of a condition step
+export interface StepCondition {
+  kind: ConditionKind;
+  operator?: AssertionOperator;
+  expected?: string;
+  negate?: boolean;
+  // How long to wait for the condition to become true before taking the else branch (ms)
+  timeout?: number;
+}
+
+// How a loop step decides whether to run another iteration
+export type LoopKind = 'repeat' | 'while' | 'for-each';
+
+// Configuration of a loop step; while and for-each loops use the step target
+export interface StepLoop {
+  kind: LoopKind;
+  // Number of iterations of a repeat loop
+  count?: number;
+  // Safeguard against endless loops (defaults to DEFAULT_MAX_LOOP_ITERATIONS)
+  maxIterations?: number;
+  // Name under which the body sees {{name.index}} and, for for-each loops, {{name.text}}
+  variable?: string;
+}
+
+// Reference from a run-flow step to the flow it plays inline
+export interface SubFlowCall {
+  flowId: string;
+  // Values for the called flow's variables; may contain {{placeholders}} of the caller
+  bindings?: Record<string, string>;
+}
+
+// What an extract step reads from its target element
+export type ExtractSource = 'text' | 'attribute' | 'value' | 'table';
+
+// Configuration of an extract step
+export interface StepExtract {
+  source: ExtractSource;
+  // Attribute name for attribute extraction
+  attribute?: string;
+  // Variable the value is stored in; later steps use it as {{variable}} (tables as JSON)
+  variable: string;
+}
+
+// Value captured by an extract step: text, or the rows of a table keyed by column header
+export type ExtractedValue = string | Record<string, string>[];
+
+// Native dialogs a page can open
+export type DialogKind = 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+
+// How a native dialog is answered: OK / leave the page, or Cancel / stay
+export interface DialogResponse {
+  action: 'accept' | 'dismiss';
+  // Text entered into an accepted prompt (defaults to the prompt's default value)
+  promptText?: string;
+}
+
+// A native dialog the page opened and how it was answered; dialog steps hold the one recorded
+export interface DialogRecord {
+  kind: DialogKind;
+  message: string;
+  response: DialogResponse;
+}
+
+// How the page's dialog functions behave: natively, recording the user's answers, or answering
+// automatically during playback
+export type DialogHookMode = 'off' | 'record' | 'playback';
+
+// Configuration the content script passes to the dialog hook in the page's main world
+export interface DialogHookConfig {
+  mode: DialogHookMode;
+  // Playback: answers for the dialogs expected next, used in order for dialogs of their kind
+  expected?: Pick<DialogRecord, 'kind' | 'response'>[];
+  // Playback: answer for any other dialog
+  fallback?: DialogResponse;
+}
+
+// How input steps enter their value: set at once, or key by key like a person typing
+export type TypingMode = 'instant' | 'keystrokes';
+
+// Typing behavior of input steps, set per flow and overridden per step
+export interface TypingOptions {
+  mode: TypingMode;
+  // Pause between keystrokes (ms)
+  keyDelay: number;
+}
+
+// How playback produces input: synthetic DOM events, or trusted events sent through chrome.debugger
+export type InputBackendKind = 'synthetic' | 'debugger';
+
+// Trusted input the content script asks the service worker to dispatch, at coordinates relative
+// to the top-level viewport
+export type TrustedInputCommand =
+  | { kind: 'click'; x: number; y: number }
+  | { kind: 'insert-text'; text: string }
+  | { kind: 'type'; text: string; keyDelay: number }
+  | { kind: 'key'; key: string };
+
+// Named lists of nested steps inside a block step
+export type StepBranch = 'then' | 'else' | 'body';
 
 // A single recorded step/action
 export interface RecordedStep {
@@ -22,6 +192,137 @@ export interface RecordedStep {
   url?: string;
   delay: number;
   description?: string;
+  assertion?: StepAssertion;
+  breakpoint?: boolean;
+  policy?: Partial<StepPolicy>;
+  typing?: Partial<TypingOptions>;
+  condition?: StepCondition;
+  thenSteps?: RecordedStep[];
+  elseSteps?: RecordedStep[];
+  loop?: StepLoop;
+  loopSteps?: RecordedStep[];
+  subFlow?: SubFlowCall;
+  extract?: StepExtract;
+  dialog?: DialogRecord;
+}
+
+// Payload of an EXECUTE_STEP message: the step with its resolved policy, typing and loop
+// iteration, the input backend of its flow and the answers for dialogs it may open
+export type StepExecutionPayload = RecordedStep & {
+  iteration?: number;
+  inputBackend?: InputBackendKind;
+  dialogs?: Pick<DialogHookConfig, 'expected' | 'fallback'>;
+  // How long to wait for the user to solve a CAPTCHA found on the page (ms, 0 to not wait)
+  captchaTimeout?: number;
+  // Set when playback uses auto-wait: wait for the page to settle and the target to be ready
+  autoWait?: { quietPeriod: number };
+};
+
+// How a CAPTCHA pause ended: the challenge was solved (response token filled, challenge gone or
+// page left), the user chose to continue or stop, or the wait timed out
+export type CaptchaOutcome = 'solved' | 'continued' | 'stopped' | 'timeout';
+
+// Playback pause while the user solved a CAPTCHA
+export interface CaptchaPause {
+  // Kind of challenge, e.g. reCAPTCHA
+  type: string;
+  // How long playback waited (ms)
+  waited: number;
+  outcome: CaptchaOutcome;
+}
+
+// What playback does when a step still fails after its retries
+export type FailureAction = 'fail' | 'skip' | 'continue';
+
+// Timeout and retry behavior of a step
+export interface StepPolicy {
+  // How long the executor waits for the target element and for assertions to pass (ms)
+  timeout: number;
+  // How many times a failed step is attempted again
+  retries: number;
+  // Delay between attempts (ms)
+  retryInterval: number;
+  onFailure: FailureAction;
+}
+
+// Element lookup strategies used during playback
+export type LocatorStrategy =
+  | 'shadow-path'
+  | 'css'
+  | 'xpath'
+  | 'id'
+  | 'name'
+  | 'placeholder'
+  | 'aria-label'
+  | 'data-testid'
+  | 'text'
+  | 'role'
+  | 'attributes'
+  | 'path';
+
+// Step target to look up during dry-run validation
+export interface SelectorCheckRequest {
+  stepId: string;
+  target: ElementSelector;
+}
+
+// Dry-run lookup of a step's target on the current page, without acting on it
+export interface SelectorCheck {
+  stepId: string;
+  found: boolean;
+  matchedStrategy?: LocatorStrategy;
+  // Elements the matching strategy finds; more than one means the match is ambiguous
+  candidates: number;
+  visible: boolean;
+}
+
+// Outcome of executing a step in the content script
+export interface StepResult {
+  success: boolean;
+  error?: string;
+  matchedStrategy?: LocatorStrategy;
+  retries?: number;
+  targetRect?: BoundingBox;
+  conditionMet?: boolean;
+  itemText?: string;
+  itemCount?: number;
+  extracted?: ExtractedValue;
+  // Native dialogs answered while the step ran
+  dialogs?: DialogRecord[];
+  // CAPTCHA the step waited for before running
+  captcha?: CaptchaPause;
+  // Fresh selector for the target when only a fallback lookup found it
+  healedTarget?: ElementSelector;
+}
+
+// What playback does when a step's element is found only through a fallback lookup: nothing,
+// suggest the fresh selector in the flow's heal log, or update the step right away
+export type SelectorHealingMode = 'off' | 'suggest' | 'auto';
+
+export type HealStatus = 'suggested' | 'applied' | 'reverted' | 'dismissed';
+
+// Entry of a flow's heal log: a step target replaced (or suggested to be replaced) by the
+// selector of the element a fallback lookup found, stored under the `heals` key
+export interface SelectorHeal {
+  id: string;
+  // Flow the step belongs to (a called sub-flow for its steps)
+  flowId: string;
+  stepId: string;
+  runId: string;
+  createdAt: number;
+  // Lookup that found the element instead of the primary selector
+  matchedStrategy?: LocatorStrategy;
+  previousTarget: ElementSelector;
+  healedTarget: ElementSelector;
+  status: HealStatus;
+}
+
+// Data attached to a flow for data-driven playback (one run per row)
+export interface FlowDataset {
+  name: string;
+  format: 'csv' | 'json';
+  columns: string[];
+  rows: Record<string, string>[];
 }
 
 // A complete recorded flow
@@ -33,16 +334,44 @@ export interface Flow {
   createdAt: number;
   updatedAt: number;
   startUrl: string;
+  variables?: Record<string, string>;
+  dataset?: FlowDataset;
+  // Unset fields use DEFAULT_TYPING_OPTIONS
+  typing?: Partial<TypingOptions>;
+  // Defaults to synthetic events
+  inputBackend?: InputBackendKind;
+  // Answer for dialogs no dialog step expects; defaults to DEFAULT_DIALOG_RESPONSE
+  dialogResponse?: DialogResponse;
+  // Defaults to DEFAULT_SELECTOR_HEALING
+  selectorHealing?: SelectorHealingMode;
 }
 
 // Playback configuration options
 export interface PlaybackOptions {
   speed: number;
   stepByStep: boolean;
-  stopOnError: boolean;
   highlightElements: boolean;
+  policy: StepPolicy;
+  screenshotMode: ScreenshotMode;
+  annotateScreenshots: boolean;
+  target: PlaybackTarget;
+  // How long steps wait for the user to solve a CAPTCHA (ms, 0 to not wait)
+  captchaTimeout: number;
+  timing: PlaybackTiming;
+  // Auto-wait: how long the page must be free of DOM changes before a step acts (ms)
+  quietPeriod: number;
 }
 
+// How playback paces steps: the recorded delays between them at playback speed, or as soon as the
+// page has settled and the target element is ready for the action
+export type PlaybackTiming = 'recorded' | 'auto-wait';
+
+// When playback captures screenshots of the tab
+export type ScreenshotMode = 'off' | 'on-failure' | 'every-step';
+
+// Tab a playback runs in: the tab active when it starts, or a new background tab or window
+export type PlaybackTarget = 'active-tab' | 'background-tab' | 'new-window';
+
 // Recording state
 export interface RecordingState {
   isRecording: boolean;
@@ -51,13 +380,131 @@ export interface RecordingState {
   startUrl: string | null;
 }
 
-// Playback state
+// Outcome of playing a flow once for a single dataset row
+export interface DataRowResult {
+  rowIndex: number;
+  status: 'passed' | 'failed';
+  failedStepPath?: string;
+  error?: string;
+  // Values captured by extract steps during this row, by variable name
+  extracted?: Record<string, ExtractedValue>;
+}
+
+// Final (or current) status of a playback run
+export type RunStatus = 'running' | 'passed' | 'failed' | 'stopped';
+
+// Result of a single step within a playback run
+export interface StepRunResult {
+  stepId: string;
+  stepIndex: number;
+  // Position of the step inside nested blocks, e.g. "3.else.1"
+  path?: string;
+  rowIndex: number;
+  status: 'passed' | 'failed' | 'skipped';
+  startedAt: number;
+  duration: number;
+  error?: string;
+  matchedStrategy?: LocatorStrategy;
+  retries: number;
+  attempts?: number;
+  screenshotId?: string;
+  conditionMet?: boolean;
+  // Iteration a loop step was deciding on (zero-based)
+  iteration?: number;
+  // Set for steps of a called sub-flow
+  flowId?: string;
+  extracted?: ExtractedValue;
+  dialogs?: DialogRecord[];
+  captcha?: CaptchaPause;
+}
+
+// Persisted record of one playback execution
+export interface PlaybackRun {
+  id: string;
+  flowId: string;
+  flowName: string;
+  startedAt: number;
+  endedAt?: number;
+  status: RunStatus;
+  // Why the run ended early, e.g. its tab was closed
+  stopReason?: string;
+  // Set for runs started by a schedule
+  scheduleId?: string;
+  steps: StepRunResult[];
+  rowResults: DataRowResult[];
+}
+
+// How a schedule repeats: every N minutes, or at the times matching a cron expression
+export type ScheduleKind = 'interval' | 'cron';
+
+// What a schedule does about runs it missed while the browser was closed
+export type MissedRunPolicy = 'run-once' | 'skip';
+
+// Recurring playback of a flow, stored under the `schedules` key
+export interface FlowSchedule {
+  id: string;
+  flowId: string;
+  kind: ScheduleKind;
+  // Interval schedules: minutes between runs
+  intervalMinutes?: number;
+  // Cron schedules: "minute hour day-of-month month day-of-week", in local time
+  cron?: string;
+  enabled: boolean;
+  missedRuns: MissedRunPolicy;
+  target: PlaybackTarget;
+  // Time the next run is due (null while disabled)
+  nextRunAt: number | null;
+  lastRunAt?: number;
+  // Why the last due run could not start
+  lastError?: string;
+  createdAt: number;
+}
+
+// One level of the playback position: the root step list or a branch of a block step
+export interface PlaybackFrame {
+  blockId: string | null;
+  branch: StepBranch | null;
+  index: number;
+  // Loop body frames: current iteration and the loop variables it provides
+  iteration?: number;
+  variables?: Record<string, string>;
+  // Set while the loop at `index` is about to decide on this iteration
+  loopIteration?: number;
+  // Sub-flow frames: the called flow whose steps are executed
+  flowId?: string;
+}
+
+// Playback state of one session
 export interface PlaybackState {
+  sessionId: string;
   isPlaying: boolean;
   isPaused: boolean;
   currentFlowId: string | null;
-  currentStepIndex: number;
+  flowName: string;
+  currentStepId: string | null;
+  frames: PlaybackFrame[];
+  currentRowIndex: number;
+  rowCount: number;
+  rowResults: DataRowResult[];
+  runId: string | null;
+  // Tab the playback is bound to; steps never go to any other tab
+  tabId: number | null;
   options: PlaybackOptions;
+  // Set while playback waits for the user to solve a CAPTCHA
+  captchaPause?: { type: string; startedAt: number };
+}
+
+// Payload of a START_PLAYBACK message; options default to those of the last playback
+export interface StartPlaybackPayload {
+  flowId: string;
+  options?: Partial<PlaybackOptions>;
+}
+
+// Payload of the messages controlling one playback session
+export interface SessionCommandPayload {
+  sessionId: string;
+  // Step to run to (RUN_TO_STEP)
+  stepId?: string;
 }
 
 // Message types for communication between scripts
@@ -70,12 +517,24 @@ export type MessageType =
   | 'STOP_PLAYBACK'
   | 'PAUSE_PLAYBACK'
   | 'RESUME_PLAYBACK'
+  | 'STEP_PLAYBACK'
+  | 'RUN_TO_STEP'
   | 'SET_PLAYBACK_OPTIONS'
   | 'EXECUTE_STEP'
   | 'STEP_COMPLETED'
   | 'STEP_FAILED'
   | 'GET_STATE'
-  | 'STATE_UPDATE';
+  | 'STATE_UPDATE'
+  | 'START_PICKER'
+  | 'STOP_PICKER'
+  | 'ELEMENT_PICKED'
+  | 'PICKER_CANCELLED'
+  | 'SAVE_SCHEDULE'
+  | 'DELETE_SCHEDULE'
+  | 'DISPATCH_TRUSTED_INPUT'
+  | 'PLAYBACK_ENDED'
+  | 'CAPTCHA_DETECTED'
+  | 'VALIDATE_SELECTORS';
 
 export interface Message {
   type: MessageType;
@@ -88,7 +547,8 @@ export interface StorageData {
   settings: {
     defaultPlaybackSpeed: number;
     highlightElements: boolean;
-    stopOnError: boolean;
+    // How many playback sessions may run at the same time
+    maxConcurrentSessions: number;
   };
 }
 
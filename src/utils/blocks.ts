@@ -0,0 +1,157 @@
+import type { PlaybackFrame, RecordedStep, StepBranch } from '../types';
+
+// Iteration limit of loops that do not set their own
+export const DEFAULT_MAX_LOOP_ITERATIONS = 100;
+
+// Default name of the variable a loop exposes to its body
+export const DEFAULT_LOOP_VARIABLE = 'item';
+
+// Attribute marking the current element of a for-each loop, set during playback
+export const LOOP_ITEM_ATTRIBUTE = 'data-flow-recorder-item';
+
+// Step fields holding the nested steps of each branch
+const BRANCH_FIELDS: Record<StepBranch, 'thenSteps' | 'elseSteps' | 'loopSteps'> = {
+  then: 'thenSteps',
+  else: 'elseSteps',
+  body: 'loopSteps',
+};
+
+// Branches a step holds nested steps in (empty for plain steps)
+export function getStepBranches(step: RecordedStep): StepBranch[] {
+  switch (step.type) {
+    case 'condition':
+      return ['then', 'else'];
+    case 'loop':
+      return ['body'];
+    default:
+      return [];
+  }
+}
+
+// Nested steps of one branch of a block step
+export function getBranchSteps(step: RecordedStep, branch: StepBranch): RecordedStep[] {
+  return step[BRANCH_FIELDS[branch]] || [];
+}
+
+// Return a copy of a block step with one branch replaced
+export function setBranchSteps(
+  step: RecordedStep,
+  branch: StepBranch,
+  steps: RecordedStep[]
+): RecordedStep {
+  return { ...step, [BRANCH_FIELDS[branch]]: steps };
+}
+
+// All steps including nested ones, depth first
+export function flattenSteps(steps: RecordedStep[]): RecordedStep[] {
+  return steps.flatMap((step) => [
+    step,
+    ...getStepBranches(step).flatMap((branch) => flattenSteps(getBranchSteps(step, branch))),
+  ]);
+}
+
+// Find a step at any depth
+export function findStep(steps: RecordedStep[], stepId: string): RecordedStep | undefined {
+  return flattenSteps(steps).find((s) => s.id === stepId);
+}
+
+// Return a copy of the steps with the step of the given ID replaced at any depth
+// (or removed when the replacement is null)
+export function replaceStep(
+  steps: RecordedStep[],
+  stepId: string,
+  replacement: RecordedStep | null
+): RecordedStep[] {
+  return steps.flatMap((step) => {
+    if (step.id === stepId) return replacement ? [replacement] : [];
+
+    return [
+      getStepBranches(step).reduce(
+        (block, branch) =>
+          setBranchSteps(
+            block,
+            branch,
+            replaceStep(getBranchSteps(block, branch), stepId, replacement)
+          ),
+        step
+      ),
+    ];
+  });
+}
+
+// Return a copy of the steps with a step inserted right after the step of the given ID, at any depth
+export function insertStepAfter(
+  steps: RecordedStep[],
+  afterId: string,
+  newStep: RecordedStep
+): RecordedStep[] {
+  return steps.flatMap((step) => {
+    if (step.id === afterId) return [step, newStep];
+
+    return [
+      getStepBranches(step).reduce(
+        (block, branch) =>
+          setBranchSteps(
+            block,
+            branch,
+            insertStepAfter(getBranchSteps(block, branch), afterId, newStep)
+          ),
+        step
+      ),
+    ];
+  });
+}
+
+// Find the block and branch directly containing a step (null for top-level steps)
+export function findParentBlock(
+  steps: RecordedStep[],
+  stepId: string
+): { block: RecordedStep; branch: StepBranch } | null {
+  for (const step of flattenSteps(steps)) {
+    for (const branch of getStepBranches(step)) {
+      if (getBranchSteps(step, branch).some((s) => s.id === stepId)) {
+        return { block: step, branch };
+      }
+    }
+  }
+  return null;
+}
+
+// Return a copy of the steps with fresh IDs, including nested steps
+export function regenerateStepIds(steps: RecordedStep[], createId: () => string): RecordedStep[] {
+  return steps.map((step) =>
+    getStepBranches(step).reduce(
+      (block, branch) =>
+        setBranchSteps(block, branch, regenerateStepIds(getBranchSteps(block, branch), createId)),
+      { ...step, id: createId() }
+    )
+  );
+}
+
+// Human-readable position of the current playback step, e.g. "3.else.1" or "4[2].1" (loop iteration 2)
+export function formatStepPath(frames: PlaybackFrame[]): string {
+  return frames
+    .map((frame, i) => {
+      const iteration = frames[i + 1]?.iteration;
+      const suffix = iteration !== undefined ? `[${iteration + 1}]` : '';
+      return `${frame.branch === 'else' ? 'else.' : ''}${frame.index + 1}${suffix}`;
+    })
+    .join('.');
+}
+
+// Name of the variable a loop step provides to its body
+export function getLoopVariable(step: RecordedStep): string {
+  return step.loop?.variable || DEFAULT_LOOP_VARIABLE;
+}
+
+// Selector matching the current element of a for-each loop, for steps in its body
+export function getLoopItemSelector(step: RecordedStep): string {
+  return `[${LOOP_ITEM_ATTRIBUTE}="${getLoopVariable(step)}"]`;
+}
+
+// Variable names a loop step provides to the steps in its body
+export function getLoopVariableNames(step: RecordedStep): string[] {
+  if (step.type !== 'loop') return [];
+  const name = getLoopVariable(step);
+  return step.loop?.kind === 'for-each' ? [`${name}.index`, `${name}.text`] : [`${name}.index`];
+}
@@ -0,0 +1,126 @@
+import type { FlowDataset } from '../types';
+
+// Parse CSV content into rows of cells (RFC 4180 quoting)
+function parseCsvCells(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+// Parse CSV content (first line is the header) into a dataset
+export function parseCsvDataset(content: string, name: string): FlowDataset {
+  const [header, ...body] = parseCsvCells(content);
+  if (!header) {
+    throw new Error('CSV file is empty');
+  }
+
+  const columns = header.map((c) => c.trim());
+  if (columns.some((c) => !c)) {
+    throw new Error('CSV header contains an empty column name');
+  }
+
+  const rows = body.map((cells) => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      row[column] = cells[index] ?? '';
+    });
+    return row;
+  });
+
+  return { name, format: 'csv', columns, rows };
+}
+
+// Parse JSON content (an array of flat objects) into a dataset
+export function parseJsonDataset(content: string, name: string): FlowDataset {
+  const data = JSON.parse(content);
+  if (!Array.isArray(data)) {
+    throw new Error('JSON dataset must be an array of objects');
+  }
+
+  const columns: string[] = [];
+  const rows = data.map((item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error('JSON dataset must be an array of objects');
+    }
+    const row: Record<string, string> = {};
+    for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+      if (!columns.includes(key)) columns.push(key);
+      row[key] =
+        value === null || value === undefined
+          ? ''
+          : typeof value === 'object'
+            ? JSON.stringify(value)
+            : String(value);
+    }
+    return row;
+  });
+
+  return { name, format: 'json', columns, rows };
+}
+
+// Import a dataset from a CSV or JSON file
+export function importDataset(file: File): Promise<FlowDataset> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      try {
+        const content = e.target?.result as string;
+        const dataset = file.name.toLowerCase().endsWith('.json')
+          ? parseJsonDataset(content, file.name)
+          : parseCsvDataset(content, file.name);
+
+        if (dataset.rows.length === 0) {
+          throw new Error('Dataset has no rows');
+        }
+
+        resolve(dataset);
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsText(file);
+  });
+}
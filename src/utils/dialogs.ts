@@ -0,0 +1,33 @@
+import type { DialogKind, DialogRecord, DialogResponse } from '../types';
+
+// DOM events between the content script and the dialog hook in the page's main world; their
+// detail is JSON, as only primitive values cross between the two worlds
+export const DIALOG_CONFIG_EVENT = 'flow-recorder:dialog-config';
+export const DIALOG_OPENED_EVENT = 'flow-recorder:dialog-opened';
+
+// Answer for dialogs during playback in flows that do not set their own: Cancel, like an
+// unattended browser would
+export const DEFAULT_DIALOG_RESPONSE: DialogResponse = { action: 'dismiss' };
+
+const DIALOG_LABELS: Record<DialogKind, string> = {
+  alert: 'Alert',
+  confirm: 'Confirm',
+  prompt: 'Prompt',
+  beforeunload: 'Leave page',
+};
+
+// Human-readable answer to a dialog, e.g. 'OK with "John"' or 'Cancel'
+export function describeDialogResponse(kind: DialogKind, response: DialogResponse): string {
+  if (kind === 'alert') return 'OK';
+  if (kind === 'beforeunload') return response.action === 'accept' ? 'Leave' : 'Stay';
+  if (response.action === 'dismiss') return 'Cancel';
+  return kind === 'prompt' && response.promptText !== undefined
+    ? `OK with "${response.promptText}"`
+    : 'OK';
+}
+
+// Human-readable summary of a dialog and its answer
+export function describeDialog(record: DialogRecord): string {
+  const message = record.message ? ` "${record.message.substring(0, 40)}"` : '';
+  return `${DIALOG_LABELS[record.kind]}${message} → ${describeDialogResponse(record.kind, record.response)}`;
+}
@@ -1,5 +1,14 @@
-import type { Flow, ExportedFlow, ExportedFlowBundle } from '../types';
+import type {
+  Flow,
+  ExportedFlow,
+  ExportedFlowBundle,
+  ExtractedValue,
+  PlaybackRun,
+  RecordedStep,
+} from '../types';
 import { generateId } from './storage';
+import { regenerateStepIds } from './blocks';
+import { remapSubFlowIds } from './subflows';
 
 const EXPORT_VERSION = '1.0.0';
 
@@ -47,6 +56,79 @@ export function exportAllFlows(flows: Flow[]): void {
   URL.revokeObjectURL(url);
 }
 
+export type RunResultsFormat = 'csv' | 'json';
+
+// Export the values captured by extract steps during a run, one entry per data row
+export function exportRunResults(run: PlaybackRun, format: RunResultsFormat): void {
+  const rows = run.rowResults.map((result) => ({
+    row: result.rowIndex + 1,
+    status: result.status,
+    values: result.extracted || {},
+  }));
+
+  const content = format === 'json'
+    ? JSON.stringify(rows, null, 2)
+    : toCsv(rows.flatMap((row) => flattenExtracted(row.row, row.status, row.values)));
+
+  const blob = new Blob([content], {
+    type: format === 'json' ? 'application/json' : 'text/csv',
+  });
+
+  const date = new Date(run.startedAt).toISOString().split('T')[0];
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${sanitizeFilename(run.flowName)}-results-${date}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Turn the values of one data row into CSV records. Tables become one record per table row
+// (columns named "variable.column", several tables side by side); other values repeat on each.
+function flattenExtracted(
+  row: number,
+  status: string,
+  values: Record<string, ExtractedValue>
+): Record<string, string>[] {
+  const base: Record<string, string> = { row: String(row), status };
+  const tables: [string, Record<string, string>[]][] = [];
+  for (const [name, value] of Object.entries(values)) {
+    if (typeof value === 'string') {
+      base[name] = value;
+    } else {
+      tables.push([name, value]);
+    }
+  }
+
+  const count = Math.max(1, ...tables.map(([, table]) => table.length));
+  return Array.from({ length: count }, (_, i) => {
+    const record = { ...base };
+    for (const [name, table] of tables) {
+      for (const [column, cell] of Object.entries(table[i] || {})) {
+        record[`${name}.${column}`] = cell;
+      }
+    }
+    return record;
+  });
+}
+
+// Build CSV text with a header of every column that occurs in the records
+function toCsv(records: Record<string, string>[]): string {
+  const columns: string[] = [];
+  for (const record of records) {
+    for (const column of Object.keys(record)) {
+      if (!columns.includes(column)) columns.push(column);
+    }
+  }
+
+  const quote = (cell: string) => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return [columns, ...records.map((record) => columns.map((column) => record[column] ?? ''))]
+    .map((cells) => cells.map(quote).join(','))
+    .join('\r\n');
+}
+
 // Import flow(s) from a JSON file
 export function importFlow(file: File): Promise<Flow | Flow[]> {
   return new Promise((resolve, reject) => {
@@ -69,10 +151,14 @@ export function importFlow(file: File): Promise<Flow | Flow[]> {
           return;
         }
 
-        // Handle flow bundle
+        // Handle flow bundle, pointing run-flow steps at the new IDs of flows in the same bundle
         if (data.flows && Array.isArray(data.flows)) {
-          const flows = data.flows.map(validateAndPrepareFlow);
-          resolve(flows);
+          const flows: Flow[] = data.flows.map(validateAndPrepareFlow);
+          const idMap: Record<string, string> = {};
+          data.flows.forEach((original: { id?: string }, i: number) => {
+            if (original.id) idMap[original.id] = flows[i].id;
+          });
+          resolve(flows.map((flow) => ({ ...flow, steps: remapSubFlowIds(flow.steps, idMap) })));
           return;
         }
 
@@ -101,15 +187,12 @@ function validateAndPrepareFlow(flow: unknown): Flow {
 
   // Generate new IDs to avoid conflicts
   const newFlowId = generateId();
-  const newSteps = (f.steps as unknown[]).map((step) => {
+  for (const step of f.steps as unknown[]) {
     if (!step || typeof step !== 'object') {
       throw new Error('Invalid step data');
     }
-    return {
-      ...(step as object),
-      id: generateId(),
-    };
-  });
+  }
+  const newSteps = regenerateStepIds(f.steps as RecordedStep[], generateId);
 
   return {
     ...(f as object),
@@ -0,0 +1,62 @@
+import type { ElementSelector, SelectorHeal, SelectorHealingMode } from '../types';
+import { findStep, replaceStep } from './blocks';
+import { isDynamicTarget } from './locator';
+import { generateId, getFlow, getHeals, saveFlow, saveHeal } from './storage';
+
+export const DEFAULT_SELECTOR_HEALING: SelectorHealingMode = 'suggest';
+
+// Set the target of a stored step; fails when the flow or step no longer exists
+async function setStepTarget(
+  flowId: string,
+  stepId: string,
+  target: ElementSelector
+): Promise<void> {
+  const flow = await getFlow(flowId);
+  const step = flow && findStep(flow.steps, stepId);
+  if (!flow || !step) throw new Error('The step no longer exists');
+  await saveFlow({ ...flow, steps: replaceStep(flow.steps, stepId, { ...step, target }) });
+}
+
+// Log a fresh selector found during a run: as a suggestion, or applied to the step right away.
+// A step is healed once per run (e.g. not on every loop iteration), and a suggestion still open
+// for it from an earlier run is replaced rather than repeated.
+export async function recordHeal(
+  mode: SelectorHealingMode,
+  heal: Omit<SelectorHeal, 'id' | 'createdAt' | 'status'>
+): Promise<SelectorHeal | null> {
+  // Dynamic targets cannot be replaced by the selector of the one element playback found
+  if (mode === 'off' || isDynamicTarget(heal.previousTarget)) return null;
+
+  const stepHeals = (await getHeals(heal.flowId)).filter((h) => h.stepId === heal.stepId);
+  if (stepHeals.some((h) => h.runId === heal.runId)) return null;
+  const openSuggestion = stepHeals.find((h) => h.status === 'suggested');
+  const entry: SelectorHeal = {
+    ...heal,
+    id: openSuggestion?.id ?? generateId(),
+    createdAt: Date.now(),
+    status: mode === 'auto' ? 'applied' : 'suggested',
+  };
+
+  if (mode === 'auto') {
+    await setStepTarget(entry.flowId, entry.stepId, entry.healedTarget);
+  }
+  await saveHeal(entry);
+  return entry;
+}
+
+// Apply a suggested heal to its step
+export async function applyHeal(heal: SelectorHeal): Promise<void> {
+  await setStepTarget(heal.flowId, heal.stepId, heal.healedTarget);
+  await saveHeal({ ...heal, status: 'applied' });
+}
+
+// Put back the target a heal replaced
+export async function revertHeal(heal: SelectorHeal): Promise<void> {
+  await setStepTarget(heal.flowId, heal.stepId, heal.previousTarget);
+  await saveHeal({ ...heal, status: 'reverted' });
+}
+
+// Leave a suggested heal unapplied
+export async function dismissHeal(heal: SelectorHeal): Promise<void> {
+  await saveHeal({ ...heal, status: 'dismissed' });
+}
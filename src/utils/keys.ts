@@ -0,0 +1,106 @@
+// Keyboard layout data for simulated keystrokes (US layout)
+
+// Key, physical key code and legacy keyCode of a keystroke, and whether Shift is held
+export interface KeyInfo {
+  key: string;
+  code: string;
+  keyCode: number;
+  shift: boolean;
+}
+
+// Physical key of each punctuation character on a US keyboard layout
+const PUNCTUATION_KEYS: Record<string, { code: string; shift?: boolean }> = {
+  '-': { code: 'Minus' },
+  _: { code: 'Minus', shift: true },
+  '=': { code: 'Equal' },
+  '+': { code: 'Equal', shift: true },
+  '[': { code: 'BracketLeft' },
+  '{': { code: 'BracketLeft', shift: true },
+  ']': { code: 'BracketRight' },
+  '}': { code: 'BracketRight', shift: true },
+  '\\': { code: 'Backslash' },
+  '|': { code: 'Backslash', shift: true },
+  ';': { code: 'Semicolon' },
+  ':': { code: 'Semicolon', shift: true },
+  "'": { code: 'Quote' },
+  '"': { code: 'Quote', shift: true },
+  ',': { code: 'Comma' },
+  '<': { code: 'Comma', shift: true },
+  '.': { code: 'Period' },
+  '>': { code: 'Period', shift: true },
+  '/': { code: 'Slash' },
+  '?': { code: 'Slash', shift: true },
+  '`': { code: 'Backquote' },
+  '~': { code: 'Backquote', shift: true },
+  '!': { code: 'Digit1', shift: true },
+  '@': { code: 'Digit2', shift: true },
+  '#': { code: 'Digit3', shift: true },
+  $: { code: 'Digit4', shift: true },
+  '%': { code: 'Digit5', shift: true },
+  '^': { code: 'Digit6', shift: true },
+  '&': { code: 'Digit7', shift: true },
+  '*': { code: 'Digit8', shift: true },
+  '(': { code: 'Digit9', shift: true },
+  ')': { code: 'Digit0', shift: true },
+};
+
+// Legacy keyCode of the punctuation keys, still read by older listeners
+const PUNCTUATION_KEY_CODES: Record<string, number> = {
+  Minus: 189,
+  Equal: 187,
+  BracketLeft: 219,
+  BracketRight: 221,
+  Backslash: 220,
+  Semicolon: 186,
+  Quote: 222,
+  Comma: 188,
+  Period: 190,
+  Slash: 191,
+  Backquote: 192,
+};
+
+// Keys that do not produce a character, by their `key` value
+const NAMED_KEYS: Record<string, { code: string; keyCode: number }> = {
+  Enter: { code: 'Enter', keyCode: 13 },
+  Tab: { code: 'Tab', keyCode: 9 },
+  Escape: { code: 'Escape', keyCode: 27 },
+  Backspace: { code: 'Backspace', keyCode: 8 },
+  Delete: { code: 'Delete', keyCode: 46 },
+  Shift: { code: 'ShiftLeft', keyCode: 16 },
+  ArrowLeft: { code: 'ArrowLeft', keyCode: 37 },
+  ArrowUp: { code: 'ArrowUp', keyCode: 38 },
+  ArrowRight: { code: 'ArrowRight', keyCode: 39 },
+  ArrowDown: { code: 'ArrowDown', keyCode: 40 },
+  Home: { code: 'Home', keyCode: 36 },
+  End: { code: 'End', keyCode: 35 },
+  PageUp: { code: 'PageUp', keyCode: 33 },
+  PageDown: { code: 'PageDown', keyCode: 34 },
+};
+
+// Key, code and keyCode of a named key (e.g. "Enter") or of the key a character is typed with
+export function getKeyInfo(char: string): KeyInfo {
+  // A line break is typed with Enter
+  const name = char === '\n' ? 'Enter' : char;
+  const named = NAMED_KEYS[name];
+  if (named) return { key: name, ...named, shift: name === 'Shift' };
+  if (char === ' ') return { key: ' ', code: 'Space', keyCode: 32, shift: false };
+
+  if (/^[a-z]$/i.test(char)) {
+    const upper = char.toUpperCase();
+    return { key: char, code: `Key${upper}`, keyCode: upper.charCodeAt(0), shift: char === upper };
+  }
+  if (/^\d$/.test(char)) {
+    return { key: char, code: `Digit${char}`, keyCode: char.charCodeAt(0), shift: false };
+  }
+
+  const punctuation = PUNCTUATION_KEYS[char];
+  if (punctuation) {
+    const keyCode = punctuation.code.startsWith('Digit')
+      ? punctuation.code.charCodeAt(5)
+      : PUNCTUATION_KEY_CODES[punctuation.code];
+    return { key: char, code: punctuation.code, keyCode, shift: !!punctuation.shift };
+  }
+
+  // Characters without a key of their own (e.g. accented letters or emoji) have no code
+  return { key: char, code: '', keyCode: 0, shift: false };
+}
@@ -0,0 +1,398 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ElementSelector, SelectorCandidate } from '../types';
+import {
+  attributeLocator,
+  attributeSelector,
+  checkSelectors,
+  cssLocator,
+  deepQuerySelectorAll,
+  describeNotFound,
+  findElement,
+  findElementWithRetry,
+  getAccessibleName,
+  getElementRole,
+  isDynamicTarget,
+  isPrimaryMatch,
+  isValidCssSelector,
+  isValidXPath,
+  locateElement,
+  mergeSelectorChecks,
+  orderCandidates,
+  queryCandidate,
+  resolveShadowPath,
+  textLocator,
+} from './locator';
+
+// Target with only the fields a test sets
+function target(fields: Partial<ElementSelector> = {}): ElementSelector {
+  return { css: '', xpath: '', tagName: 'button', attributes: {}, ...fields };
+}
+
+function candidate(fields: Partial<SelectorCandidate>): SelectorCandidate {
+  return { strategy: 'path', value: '', matches: 1, score: 50, ...fields };
+}
+
+// Shadow host with the given inner HTML, appended to `parent`
+function addShadowHost(parent: Element | ShadowRoot, id: string, html: string): ShadowRoot {
+  const host = document.createElement('div');
+  host.id = id;
+  parent.appendChild(host);
+  const root = host.attachShadow({ mode: 'open' });
+  root.innerHTML = html;
+  return root;
+}
+
+// Lookups log every attempt
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  document.body.innerHTML = '';
+  vi.restoreAllMocks();
+});
+
+describe('deep queries', () => {
+  it('finds elements inside nested shadow roots', () => {
+    document.body.innerHTML = '<button class="go">Light</button>';
+    const outer = addShadowHost(document.body, 'outer', '<button class="go">Outer</button>');
+    addShadowHost(outer, 'inner', '<button class="go">Inner</button>');
+
+    const texts = deepQuerySelectorAll('.go').map((el) => el.textContent);
+    expect(texts).toEqual(['Light', 'Outer', 'Inner']);
+  });
+
+  it('matches nothing for an invalid selector', () => {
+    document.body.innerHTML = '<button>Go</button>';
+    expect(deepQuerySelectorAll('button[')).toEqual([]);
+  });
+
+  it('resolves a shadow host path to the innermost shadow root', () => {
+    const outer = addShadowHost(document.body, 'outer', '');
+    const inner = addShadowHost(outer, 'inner', '<input name="q">');
+
+    expect(resolveShadowPath('#outer >>> #inner')).toBe(inner);
+    expect(resolveShadowPath('#outer >>> #missing')).toBeNull();
+  });
+});
+
+describe('attributeSelector', () => {
+  it('escapes quotes and backslashes in the value', () => {
+    document.body.innerHTML = '<input aria-label="Say &quot;hi&quot; \\ now">';
+    const selector = attributeSelector('aria-label', 'Say "hi" \\ now');
+
+    expect(isValidCssSelector(selector)).toBe(true);
+    expect(document.querySelectorAll(selector)).toHaveLength(1);
+  });
+});
+
+describe('locateElement', () => {
+  it('tries the strategies in playback order', () => {
+    document.body.innerHTML = `
+      <button id="by-id">Save</button>
+      <button class="primary" name="save">Save</button>
+    `;
+    const match = locateElement(
+      target({ css: '.primary', text: 'Save', attributes: { id: 'by-id', name: 'save' } })
+    );
+
+    expect(match?.strategy).toBe('css');
+    expect(match?.element.className).toBe('primary');
+  });
+
+  it('falls back to XPath when the CSS selector finds nothing', () => {
+    document.body.innerHTML = '<div><span>First</span><span>Second</span></div>';
+    const match = locateElement(target({ css: '.gone', xpath: '/html/body/div/span[2]' }));
+
+    expect(match?.strategy).toBe('xpath');
+    expect(match?.element.textContent).toBe('Second');
+  });
+
+  it('falls back to attributes whose values need escaping', () => {
+    document.body.innerHTML = '<input placeholder="Name &quot;first&quot;">';
+    const match = locateElement(
+      target({ css: '.gone', tagName: 'input', attributes: { placeholder: 'Name "first"' } })
+    );
+
+    expect(match?.strategy).toBe('placeholder');
+  });
+
+  it('looks up IDs that are not valid CSS identifiers', () => {
+    document.body.innerHTML = '<button id="1:save">Save</button>';
+    const match = locateElement(target({ attributes: { id: '1:save' } }));
+
+    expect(match?.strategy).toBe('id');
+  });
+
+  it('finds elements by exact text, including in Shadow DOM', () => {
+    addShadowHost(document.body, 'host', '<button>Checkout</button><button>Checkout now</button>');
+    const match = locateElement(target({ css: '.gone', text: 'Checkout' }));
+
+    expect(match?.strategy).toBe('text');
+    expect(match?.count).toBe(1);
+  });
+
+  it('prefers the shadow host path over a deep CSS lookup', () => {
+    document.body.innerHTML = '<input name="q" class="light">';
+    addShadowHost(document.body, 'search', '<input name="q" class="shadow">');
+    const match = locateElement(
+      target({
+        css: 'input[name="q"]',
+        tagName: 'input',
+        attributes: { 'data-shadow-host-path': '#search' },
+      })
+    );
+
+    expect(match?.strategy).toBe('shadow-path');
+    expect(match?.element.className).toBe('shadow');
+  });
+
+  it('counts every element the matching strategy finds', () => {
+    document.body.innerHTML = '<li class="row"></li><li class="row"></li><li class="row"></li>';
+    const match = locateElement(target({ css: '.row', tagName: 'li' }));
+
+    expect(match?.count).toBe(3);
+  });
+
+  it('returns null when no strategy finds the element', () => {
+    document.body.innerHTML = '<button>Other</button>';
+    expect(locateElement(target({ css: '.gone', text: 'Missing' }))).toBeNull();
+    expect(findElement(target({ css: '.gone' }))).toBeNull();
+  });
+
+  it('only uses the locators it is given', () => {
+    document.body.innerHTML = '<button class="primary">Save</button>';
+    const selector = target({ css: '.primary', text: 'Save' });
+
+    expect(locateElement(selector, [textLocator])?.strategy).toBe('text');
+    expect(locateElement(selector, [attributeLocator('name', 'name')])).toBeNull();
+    expect(locateElement(selector, [cssLocator])?.strategy).toBe('css');
+  });
+
+  it('tries candidates before everything else', () => {
+    document.body.innerHTML = '<button class="primary">Save</button><button>Cancel</button>';
+    const match = locateElement(
+      target({
+        css: '.primary',
+        candidates: [candidate({ strategy: 'role', value: 'button', name: 'Cancel' })],
+      })
+    );
+
+    expect(match?.strategy).toBe('role');
+    expect(match?.element.textContent).toBe('Cancel');
+  });
+});
+
+describe('candidates', () => {
+  it('skips candidates that match more than one element', () => {
+    document.body.innerHTML = '<button>Go</button><button>Go</button><button id="go">Go</button>';
+    const ambiguous = candidate({ strategy: 'text', value: 'Go' });
+    const unique = candidate({ strategy: 'id', value: '#go' });
+    const match = locateElement(target({ candidates: [ambiguous, unique] }));
+
+    expect(match?.candidate).toBe(unique);
+  });
+
+  it('accepts a pinned candidate that matches more than one element', () => {
+    document.body.innerHTML = '<button>Go</button><button>Go</button><button id="go">Go</button>';
+    const pinned = candidate({ strategy: 'text', value: 'Go', pinned: true });
+    const match = locateElement(
+      target({ candidates: [candidate({ strategy: 'id', value: '#go' }), pinned] })
+    );
+
+    expect(match?.candidate).toBe(pinned);
+    expect(match?.count).toBe(3);
+  });
+
+  it('skips candidates when the CSS selector targets the current loop element', () => {
+    document.body.innerHTML = `
+      <tr><td><button>Approve</button></td></tr>
+      <tr><td><button data-flow-recorder-item="item">Approve</button></td></tr>
+    `;
+    const firstRow = candidate({ value: 'tr:nth-of-type(1) button', pinned: true });
+    const match = locateElement(
+      target({ css: '[data-flow-recorder-item="item"]', candidates: [firstRow] })
+    );
+
+    expect(match?.strategy).toBe('css');
+    expect(match?.element.hasAttribute('data-flow-recorder-item')).toBe(true);
+    expect(isPrimaryMatch(target({ css: '[data-flow-recorder-item="item"]' }), match!)).toBe(true);
+  });
+
+  it('skips candidates when the selectors use variables', () => {
+    document.body.innerHTML = '<button id="recorded">Go</button>';
+    const recorded = candidate({ strategy: 'id', value: '#recorded' });
+
+    expect(locateElement(target({ css: '#{{id}}', candidates: [recorded] }))).toBeNull();
+    expect(
+      locateElement(target({ xpath: '//*[@id="{{id}}"]', candidates: [recorded] }))
+    ).toBeNull();
+  });
+
+  it('treats targets using variables or the loop element as dynamic', () => {
+    expect(isDynamicTarget(target({ css: '#{{id}}' }))).toBe(true);
+    expect(isDynamicTarget(target({ xpath: '//a[text()="{{name}}"]' }))).toBe(true);
+    expect(isDynamicTarget(target({ css: '[data-flow-recorder-item="item"] a' }))).toBe(true);
+    expect(isDynamicTarget(target({ css: '#go', xpath: '//*[@id="go"]' }))).toBe(false);
+  });
+
+  it('puts the pinned candidate first', () => {
+    const first = candidate({ value: '#a' });
+    const pinned = candidate({ value: '#b', pinned: true });
+    expect(orderCandidates([first, pinned])).toEqual([pinned, first]);
+    expect(orderCandidates()).toEqual([]);
+  });
+
+  it('matches role candidates by role and accessible name', () => {
+    document.body.innerHTML = `
+      <label for="email">Email</label><input id="email">
+      <a href="/help">Help</a>
+      <a>Not a link</a>
+    `;
+    const email = candidate({ strategy: 'role', value: 'textbox', name: 'Email' });
+    const help = candidate({ strategy: 'role', value: 'link', name: 'Help' });
+
+    expect(queryCandidate(email, 'input')).toHaveLength(1);
+    expect(queryCandidate(help, 'a')).toHaveLength(1);
+    expect(getElementRole(document.querySelector('a:not([href])')!)).toBeNull();
+    expect(getAccessibleName(document.querySelector('input')!)).toBe('Email');
+  });
+
+  it('matches explicit and implied roles', () => {
+    document.body.innerHTML = `
+      <div role="button">Save</div>
+      <button>Save</button>
+      <button role="tab">Save</button>
+      <input type="Submit" aria-label="Save">
+      <span>Save</span>
+    `;
+    const save = candidate({ strategy: 'role', value: 'button', name: 'Save' });
+
+    expect(queryCandidate(save, 'button').map((el) => el.tagName)).toEqual([
+      'DIV',
+      'BUTTON',
+      'INPUT',
+    ]);
+  });
+});
+
+describe('isPrimaryMatch', () => {
+  it('is the first candidate in playback order', () => {
+    document.body.innerHTML = '<button id="go">Go</button>';
+    const first = candidate({ strategy: 'id', value: '#missing' });
+    const second = candidate({ strategy: 'text', value: 'Go' });
+    const selector = target({ candidates: [first, second] });
+    const match = locateElement(selector)!;
+
+    expect(match.candidate).toBe(second);
+    expect(isPrimaryMatch(selector, match)).toBe(false);
+    expect(isPrimaryMatch(target({ candidates: [second] }), match)).toBe(true);
+  });
+
+  it('is the CSS selector for targets without candidates', () => {
+    document.body.innerHTML = '<button class="go">Go</button>';
+    const byCss = target({ css: '.go' });
+    const byText = target({ css: '.gone', text: 'Go' });
+
+    expect(isPrimaryMatch(byCss, locateElement(byCss)!)).toBe(true);
+    expect(isPrimaryMatch(byText, locateElement(byText)!)).toBe(false);
+  });
+});
+
+describe('checkSelectors', () => {
+  it('reports what was found, how many matched and whether it is visible', () => {
+    document.body.innerHTML = `
+      <button class="shown">Shown</button>
+      <button class="hidden" style="display: none">Hidden</button>
+      <button class="hidden">Hidden</button>
+    `;
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue(
+      new DOMRect(0, 0, 100, 20)
+    );
+
+    const checks = checkSelectors([
+      { stepId: 'a', target: target({ css: '.shown' }) },
+      { stepId: 'b', target: target({ css: '.hidden' }) },
+      { stepId: 'c', target: target({ css: '.gone' }) },
+    ]);
+
+    expect(checks).toEqual([
+      { stepId: 'a', found: true, matchedStrategy: 'css', candidates: 1, visible: true },
+      { stepId: 'b', found: true, matchedStrategy: 'css', candidates: 2, visible: false },
+      { stepId: 'c', found: false, candidates: 0, visible: false },
+    ]);
+  });
+
+  it('treats elements without a size as not visible', () => {
+    document.body.innerHTML = '<button class="go">Go</button>';
+    const [check] = checkSelectors([{ stepId: 'a', target: target({ css: '.go' }) }]);
+
+    expect(check.found).toBe(true);
+    expect(check.visible).toBe(false);
+  });
+
+  it('keeps the frame where each step was found when merging frames', () => {
+    const missing = (stepId: string) => ({ stepId, found: false, candidates: 0, visible: false });
+    const hidden = { stepId: 'a', found: true, candidates: 1, visible: false };
+    const shown = { stepId: 'a', found: true, candidates: 2, visible: true };
+    const inFrame = { stepId: 'b', found: true, candidates: 1, visible: true };
+
+    expect(
+      mergeSelectorChecks([
+        [hidden, missing('b'), missing('c')],
+        [shown, inFrame, missing('c')],
+        [missing('a'), missing('b'), missing('c')],
+      ])
+    ).toEqual([shown, inFrame, missing('c')]);
+  });
+});
+
+describe('findElementWithRetry', () => {
+  it('waits for an element added later', async () => {
+    vi.useFakeTimers();
+    try {
+      setTimeout(() => (document.body.innerHTML = '<button class="late">Late</button>'), 700);
+      const result = findElementWithRetry(target({ css: '.late' }), 2000, 500);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const { match, retries } = await result;
+      expect(match?.element.className).toBe('late');
+      expect(retries).toBe(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('gives up after the timeout', async () => {
+    vi.useFakeTimers();
+    try {
+      const result = findElementWithRetry(target({ css: '.never' }), 1000, 500);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect((await result).match).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('describeNotFound', () => {
+  it('names the selector that is not valid', () => {
+    expect(describeNotFound(target({ css: 'a[=x]' }))).toBe(
+      'Element not found (invalid CSS selector: a[=x])'
+    );
+    expect(describeNotFound(target({ css: '.ok', xpath: '//a[' }))).toBe(
+      'Element not found (invalid XPath: //a[)'
+    );
+    expect(describeNotFound(target({ css: '.ok' }))).toBe('Element not found');
+  });
+});
+
+describe('validity checks', () => {
+  it('accepts valid and rejects invalid CSS selectors and XPaths', () => {
+    expect(isValidCssSelector('form > input[name="q"]')).toBe(true);
+    expect(isValidCssSelector('input[')).toBe(false);
+    expect(isValidXPath('//div[@id="main"]/span[2]')).toBe(true);
+    expect(isValidXPath('//div[')).toBe(false);
+  });
+});
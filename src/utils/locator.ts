@@ -0,0 +1,445 @@
+// Locator engine: finds the element a step targets, for playback, dry-run validation and
+// selector generation alike. A lookup tries a list of locators in order; DEFAULT_LOCATORS is
+// the list playback uses, and callers can pass their own.
+
+import type {
+  ElementSelector,
+  LocatorStrategy,
+  SelectorCandidate,
+  SelectorCheck,
+  SelectorCheckRequest,
+} from '../types';
+import { LOOP_ITEM_ATTRIBUTE } from './blocks';
+import { extractVariableNames } from './variables';
+
+type QueryRoot = Document | Element | ShadowRoot;
+
+// Element found for a target, with how it was found
+export interface ElementMatch {
+  element: Element;
+  strategy: LocatorStrategy;
+  // Elements the lookup found (the first is used); more than one means the match is ambiguous
+  count: number;
+  // Recorded candidate that matched, if any
+  candidate?: SelectorCandidate;
+}
+
+// One way of finding a target; null when it does not apply to the target or finds nothing
+export type Locator = (selector: ElementSelector) => ElementMatch | null;
+
+// ============================================================================
+// Deep queries (Shadow DOM)
+// ============================================================================
+
+// Elements matching a CSS selector in `root` and every shadow root inside it. Invalid
+// selectors match nothing.
+export function deepQuerySelectorAll(selector: string, root: QueryRoot = document): Element[] {
+  const results: Element[] = [];
+  try {
+    results.push(...Array.from(root.querySelectorAll(selector)));
+  } catch {
+    // Invalid selector
+  }
+
+  for (const el of Array.from(root.querySelectorAll('*'))) {
+    if (el.shadowRoot) {
+      results.push(...deepQuerySelectorAll(selector, el.shadowRoot));
+    }
+  }
+  return results;
+}
+
+// Innermost shadow root of a shadow host path ("host1 >>> host2"), or null when a host is
+// missing
+export function resolveShadowPath(hostPath: string): Document | ShadowRoot | null {
+  let root: Document | ShadowRoot = document;
+  for (const hostSelector of hostPath.split(' >>> ').map((s) => s.trim())) {
+    let host: Element | null = null;
+    try {
+      host = root.querySelector(hostSelector);
+    } catch {
+      // Invalid selector
+    }
+    if (!host?.shadowRoot) return null;
+    root = host.shadowRoot;
+  }
+  return root;
+}
+
+// CSS selector matching an exact attribute value
+export function attributeSelector(attribute: string, value: string): string {
+  return `[${attribute}="${CSS.escape(value)}"]`;
+}
+
+// Check whether a string is a syntactically valid CSS selector
+export function isValidCssSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Check whether a string is a syntactically valid XPath expression
+export function isValidXPath(xpath: string): boolean {
+  try {
+    document.createExpression(xpath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Roles and accessible names
+// ============================================================================
+
+// Roles implied by tag names (inputs and links are handled separately)
+const IMPLICIT_ROLES: Record<string, string> = {
+  button: 'button',
+  select: 'combobox',
+  textarea: 'textbox',
+  img: 'img',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  nav: 'navigation',
+  li: 'listitem',
+  option: 'option',
+  table: 'table',
+  form: 'form',
+  dialog: 'dialog',
+};
+
+// Roles of input types other than text-like ones
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  submit: 'button',
+  reset: 'button',
+  image: 'button',
+  checkbox: 'checkbox',
+  radio: 'radio',
+  range: 'slider',
+  search: 'searchbox',
+};
+
+// ARIA role of an element, explicit or implied by its tag
+export function getElementRole(element: Element): string | null {
+  const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+  if (explicit) return explicit;
+
+  const tagName = element.tagName.toLowerCase();
+  if (tagName === 'a') return element.hasAttribute('href') ? 'link' : null;
+  if (tagName === 'input') {
+    const type = (element.getAttribute('type') || 'text').toLowerCase();
+    return type === 'hidden' ? null : (INPUT_ROLES[type] ?? 'textbox');
+  }
+  return IMPLICIT_ROLES[tagName] ?? null;
+}
+
+// Selector for the elements that can have a role: an explicit role attribute, or a tag (and
+// input type) implying it. getElementRole has the final say.
+function roleSelector(role: string): string {
+  const selectors = [`[role~="${CSS.escape(role)}"]`];
+  for (const [tagName, implicit] of Object.entries(IMPLICIT_ROLES)) {
+    if (implicit === role) selectors.push(tagName);
+  }
+  if (role === 'link') selectors.push('a[href]');
+  if (role === 'textbox') {
+    selectors.push('input');
+  } else {
+    for (const [type, implicit] of Object.entries(INPUT_ROLES)) {
+      if (implicit === role) selectors.push(`input[type="${type}" i]`);
+    }
+  }
+  return selectors.join(', ');
+}
+
+// Collapse whitespace and trim
+export function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+// Accessible name of an element, simplified: ARIA labels, associated <label>s, alt and
+// title, then the text of the element (except for form fields)
+export function getAccessibleName(element: Element): string {
+  const ariaLabel = normalizeText(element.getAttribute('aria-label'));
+  if (ariaLabel) return ariaLabel;
+
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const text = normalizeText(
+      labelledBy
+        .split(/\s+/)
+        .map((id) => root.getElementById(id)?.textContent)
+        .join(' ')
+    );
+    if (text) return text;
+  }
+
+  const labels = (element as HTMLInputElement).labels;
+  if (labels && labels.length > 0) {
+    const text = normalizeText(
+      Array.from(labels)
+        .map((l) => l.textContent)
+        .join(' ')
+    );
+    if (text) return text;
+  }
+
+  const alt = normalizeText(element.getAttribute('alt') || element.getAttribute('title'));
+  if (alt) return alt;
+
+  const tagName = element.tagName.toLowerCase();
+  if (tagName === 'input' || tagName === 'textarea' || tagName === 'select') {
+    return normalizeText(element.getAttribute('placeholder'));
+  }
+  return normalizeText(element.textContent);
+}
+
+// ============================================================================
+// Candidates
+// ============================================================================
+
+// Elements matching a candidate anywhere in the page, including Shadow DOM. Text candidates
+// match elements with the recorded tag name.
+export function queryCandidate(candidate: SelectorCandidate, tagName: string): Element[] {
+  switch (candidate.strategy) {
+    case 'role':
+      return deepQuerySelectorAll(roleSelector(candidate.value)).filter(
+        (el) => getElementRole(el) === candidate.value && getAccessibleName(el) === candidate.name
+      );
+    case 'text':
+      return deepQuerySelectorAll(tagName).filter(
+        (el) => normalizeText(el.textContent) === candidate.value
+      );
+    default:
+      return deepQuerySelectorAll(candidate.value);
+  }
+}
+
+// Candidates in the order playback tries them: the pinned one first, then by rank
+export function orderCandidates(candidates: SelectorCandidate[] = []): SelectorCandidate[] {
+  return [...candidates.filter((c) => c.pinned), ...candidates.filter((c) => !c.pinned)];
+}
+
+// ============================================================================
+// Locators
+// ============================================================================
+
+function matchFirst(elements: Element[], strategy: LocatorStrategy): ElementMatch | null {
+  return elements.length > 0 ? { element: elements[0], strategy, count: elements.length } : null;
+}
+
+// Whether a target's CSS selector or XPath picks the element at run time: it uses variables
+// or points at the current for-each loop element
+export function isDynamicTarget(selector: ElementSelector): boolean {
+  return (
+    extractVariableNames(selector.css).length > 0 ||
+    extractVariableNames(selector.xpath).length > 0 ||
+    selector.css.includes(LOOP_ITEM_ATTRIBUTE)
+  );
+}
+
+// Candidates playback tries for a target, in order. None for dynamic targets: the candidates
+// recorded with the step would find the same element every time.
+export function getTargetCandidates(selector: ElementSelector): SelectorCandidate[] {
+  return isDynamicTarget(selector) ? [] : orderCandidates(selector.candidates);
+}
+
+// Ranked candidates recorded with the target, in playback order. They must single out the
+// element, except a pinned one.
+export const candidateLocator: Locator = (selector) => {
+  for (const candidate of getTargetCandidates(selector)) {
+    const elements = queryCandidate(candidate, selector.tagName);
+    if (elements.length === 1 || (candidate.pinned && elements.length > 0)) {
+      return {
+        element: elements[0],
+        strategy: candidate.strategy,
+        count: elements.length,
+        candidate,
+      };
+    }
+  }
+  return null;
+};
+
+// The CSS selector inside the shadow root the recorded shadow host path leads to
+export const shadowPathLocator: Locator = (selector) => {
+  const hostPath = selector.attributes['data-shadow-host-path'];
+  const root = hostPath && selector.css ? resolveShadowPath(hostPath) : null;
+  if (!root) return null;
+  try {
+    return matchFirst(Array.from(root.querySelectorAll(selector.css)), 'shadow-path');
+  } catch {
+    return null;
+  }
+};
+
+// The CSS selector, anywhere in the page
+export const cssLocator: Locator = (selector) =>
+  selector.css ? matchFirst(deepQuerySelectorAll(selector.css), 'css') : null;
+
+// The XPath (which does not reach into Shadow DOM)
+export const xpathLocator: Locator = (selector) => {
+  if (!selector.xpath) return null;
+  try {
+    const result = document.evaluate(
+      selector.xpath,
+      document,
+      null,
+      XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+      null
+    );
+    const elements: Element[] = [];
+    for (let i = 0; i < result.snapshotLength; i++) {
+      const node = result.snapshotItem(i);
+      if (node?.nodeType === Node.ELEMENT_NODE) elements.push(node as Element);
+    }
+    return matchFirst(elements, 'xpath');
+  } catch {
+    return null;
+  }
+};
+
+// The recorded value of an attribute, anywhere in the page
+export function attributeLocator(strategy: LocatorStrategy, attribute: string): Locator {
+  return (selector) => {
+    const value = selector.attributes[attribute];
+    return value
+      ? matchFirst(deepQuerySelectorAll(attributeSelector(attribute, value)), strategy)
+      : null;
+  };
+}
+
+// Elements with the recorded tag name and exactly the recorded text
+export const textLocator: Locator = (selector) => {
+  if (!selector.text) return null;
+  const elements = deepQuerySelectorAll(selector.tagName).filter(
+    (el) => el.textContent?.trim() === selector.text
+  );
+  return matchFirst(elements, 'text');
+};
+
+// Locators playback tries, in order
+export const DEFAULT_LOCATORS: Locator[] = [
+  candidateLocator,
+  shadowPathLocator,
+  cssLocator,
+  xpathLocator,
+  attributeLocator('id', 'id'),
+  attributeLocator('name', 'name'),
+  attributeLocator('placeholder', 'placeholder'),
+  attributeLocator('aria-label', 'aria-label'),
+  attributeLocator('data-testid', 'data-testid'),
+  textLocator,
+];
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+// Find a target's element with the first locator that finds it
+export function locateElement(
+  selector: ElementSelector,
+  locators: Locator[] = DEFAULT_LOCATORS
+): ElementMatch | null {
+  for (const locator of locators) {
+    const match = locator(selector);
+    if (match) {
+      console.log(`Flow Recorder: Found via ${match.strategy} (${match.count} match(es))`);
+      return match;
+    }
+  }
+  console.log('Flow Recorder: Element not found with any strategy');
+  return null;
+}
+
+export function findElement(
+  selector: ElementSelector,
+  locators: Locator[] = DEFAULT_LOCATORS
+): Element | null {
+  return locateElement(selector, locators)?.element ?? null;
+}
+
+// Poll for a target's element until it is found or the timeout elapses
+export async function findElementWithRetry(
+  selector: ElementSelector,
+  timeoutMs: number = 5000,
+  intervalMs: number = 500,
+  locators: Locator[] = DEFAULT_LOCATORS
+): Promise<{ match: ElementMatch | null; retries: number }> {
+  const start = Date.now();
+  for (let i = 0; ; i++) {
+    const match = locateElement(selector, locators);
+    if (match) return { match, retries: i };
+    if (Date.now() - start + intervalMs > timeoutMs) return { match: null, retries: i };
+    console.log(`Flow Recorder: Retry ${i + 1} (timeout ${timeoutMs}ms)`);
+    await new Promise((r) => setTimeout(r, intervalMs));
+  }
+}
+
+// Error of a lookup that found nothing, naming a selector that is not valid (e.g. after a
+// variable value was substituted into it)
+export function describeNotFound(selector: ElementSelector): string {
+  if (selector.css && !isValidCssSelector(selector.css)) {
+    return `Element not found (invalid CSS selector: ${selector.css})`;
+  }
+  if (selector.xpath && !isValidXPath(selector.xpath)) {
+    return `Element not found (invalid XPath: ${selector.xpath})`;
+  }
+  return 'Element not found';
+}
+
+// Whether the primary lookup found the element: the first candidate in playback order, or
+// the CSS selector (with its shadow host path) for targets without candidates
+export function isPrimaryMatch(selector: ElementSelector, match: ElementMatch): boolean {
+  const candidates = getTargetCandidates(selector);
+  if (candidates.length > 0) return match.candidate === candidates[0];
+  return match.strategy === 'css' || match.strategy === 'shadow-path';
+}
+
+// Whether an element takes up space and is not hidden by its style
+export function isElementVisible(element: Element): boolean {
+  const rect = element.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) return false;
+
+  const style = window.getComputedStyle(element);
+  return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
+}
+
+// Look up step targets without acting on them (dry-run validation), reporting for each
+// whether it was found, by which strategy, how many elements matched and whether it is visible
+export function checkSelectors(
+  requests: SelectorCheckRequest[],
+  locators: Locator[] = DEFAULT_LOCATORS
+): SelectorCheck[] {
+  return requests.map(({ stepId, target }) => {
+    const match = locateElement(target, locators);
+    if (!match) return { stepId, found: false, candidates: 0, visible: false };
+    return {
+      stepId,
+      found: true,
+      matchedStrategy: match.strategy,
+      candidates: match.count,
+      visible: isElementVisible(match.element),
+    };
+  });
+}
+
+// Combine the checks of every frame of a page into one check per step: the frame where the
+// target is found and visible wins, then one where it is found at all
+export function mergeSelectorChecks(frameChecks: SelectorCheck[][]): SelectorCheck[] {
+  const rank = (check: SelectorCheck) => (check.found ? 1 : 0) + (check.visible ? 1 : 0);
+  const merged = new Map<string, SelectorCheck>();
+  for (const check of frameChecks.flat()) {
+    const best = merged.get(check.stepId);
+    if (!best || rank(check) > rank(best)) merged.set(check.stepId, check);
+  }
+  return Array.from(merged.values());
+}
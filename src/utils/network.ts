@@ -0,0 +1,7 @@
+// DOM events through which the content script asks the network hook in the page's main world
+// how many requests are in flight
+export const NETWORK_QUERY_EVENT = 'flow-recorder:network-query';
+export const NETWORK_STATE_EVENT = 'flow-recorder:network-state';
+
+// Requests running longer than this (long polling, streams) no longer count as in flight
+export const LONG_REQUEST_MS = 5000;
@@ -0,0 +1,39 @@
+import type { Flow, RecordedStep, StepPolicy, TypingOptions } from '../types';
+
+// Flow-level defaults used until playback options say otherwise
+export const DEFAULT_STEP_POLICY: StepPolicy = {
+  timeout: 5000,
+  retries: 2,
+  retryInterval: 1000,
+  onFailure: 'fail',
+};
+
+// Typing of input steps in flows that do not set their own
+export const DEFAULT_TYPING_OPTIONS: TypingOptions = {
+  mode: 'instant',
+  keyDelay: 50,
+};
+
+// How long playback waits for the user to solve a CAPTCHA unless its options say otherwise
+export const DEFAULT_CAPTCHA_TIMEOUT = 5 * 60 * 1000;
+
+// How long the DOM must stay unchanged before an auto-waiting step acts
+export const DEFAULT_QUIET_PERIOD = 300;
+
+// Apply the values that are set in a partial policy on top of a complete one
+export function mergePolicy<T extends object>(base: T, overrides: Partial<T> = {}): T {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  );
+  return { ...base, ...defined };
+}
+
+// Resolve the policy of a step: its own overrides on top of the flow-level policy
+export function resolveStepPolicy(step: RecordedStep, flowPolicy: StepPolicy): StepPolicy {
+  return mergePolicy(flowPolicy, step.policy);
+}
+
+// Resolve the typing of a step: its own overrides on top of the setting of the flow it belongs to
+export function resolveStepTyping(step: RecordedStep, flow: Flow): TypingOptions {
+  return mergePolicy(mergePolicy(DEFAULT_TYPING_OPTIONS, flow.typing), step.typing);
+}
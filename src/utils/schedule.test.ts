@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { FlowSchedule } from '../types';
+import { getNextCronTime, getNextRunTime, parseCron, validateSchedule } from './schedule';
+
+// Local time, as cron expressions are
+function at(year: number, month: number, day: number, hours = 0, minutes = 0): number {
+  return new Date(year, month - 1, day, hours, minutes).getTime();
+}
+
+function schedule(overrides: Partial<FlowSchedule>): FlowSchedule {
+  return {
+    id: 's1',
+    flowId: 'f1',
+    kind: 'interval',
+    intervalMinutes: 60,
+    enabled: true,
+    missedRuns: 'skip',
+    target: 'background-tab',
+    nextRunAt: null,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe('parseCron', () => {
+  it('expands wildcards, ranges, lists and steps', () => {
+    const cron = parseCron('*/15 9-17/4 1,15 * 1-5');
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.days]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.anyDay).toBe(false);
+    expect(cron.anyWeekday).toBe(false);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0]);
+  });
+
+  it('describes the invalid field', () => {
+    expect(() => parseCron('0 0 * *')).toThrow('Cron expressions have 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('Minute "60" is out of range (0-59)');
+    expect(() => parseCron('* 1-x * * *')).toThrow('Hour "1-x" is not valid');
+    expect(() => parseCron('* * * */0 *')).toThrow('Month "*/0" is out of range (1-12)');
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('finds the next matching minute', () => {
+    expect(getNextCronTime('*/15 * * * *', at(2026, 1, 5, 9, 7))).toBe(at(2026, 1, 5, 9, 15));
+    // Strictly after the given time
+    expect(getNextCronTime('*/15 * * * *', at(2026, 1, 5, 9, 15))).toBe(at(2026, 1, 5, 9, 30));
+  });
+
+  it('skips to the next matching weekday', () => {
+    // Friday 10:00 to Monday 9:00
+    expect(getNextCronTime('0 9 * * 1-5', at(2026, 1, 9, 10))).toBe(at(2026, 1, 12, 9));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th or any Friday, from Saturday the 10th
+    expect(getNextCronTime('0 0 13 * 5', at(2026, 1, 10))).toBe(at(2026, 1, 13));
+  });
+
+  it('finds leap days and gives up on dates that never exist', () => {
+    expect(getNextCronTime('0 0 29 2 *', at(2026, 1, 1))).toBe(at(2028, 2, 29));
+    expect(getNextCronTime('0 0 31 2 *', at(2026, 1, 1))).toBeNull();
+  });
+});
+
+describe('getNextRunTime', () => {
+  it('adds the interval to the given time', () => {
+    expect(getNextRunTime(schedule({ intervalMinutes: 30 }), at(2026, 1, 5, 9))).toBe(
+      at(2026, 1, 5, 9, 30)
+    );
+  });
+
+  it('uses the cron expression', () => {
+    expect(getNextRunTime(schedule({ kind: 'cron', cron: '30 8 * * *' }), at(2026, 1, 5, 9))).toBe(
+      at(2026, 1, 6, 8, 30)
+    );
+  });
+});
+
+describe('validateSchedule', () => {
+  it('rejects intervals that are not whole minutes', () => {
+    expect(validateSchedule(schedule({ intervalMinutes: 5 }))).toBeNull();
+    expect(validateSchedule(schedule({ intervalMinutes: 0 }))).toMatch(/at least 1 minute/);
+    expect(validateSchedule(schedule({ intervalMinutes: 1.5 }))).toMatch(/whole number/);
+  });
+
+  it('rejects invalid and never-matching cron expressions', () => {
+    expect(validateSchedule(schedule({ kind: 'cron', cron: '0 9 * * 1-5' }))).toBeNull();
+    expect(validateSchedule(schedule({ kind: 'cron', cron: '0 25 * * *' }))).toBe(
+      'Hour "25" is out of range (0-23)'
+    );
+    expect(validateSchedule(schedule({ kind: 'cron', cron: '0 0 30 2 *' }))).toBe(
+      'Cron expression never matches a date'
+    );
+  });
+});
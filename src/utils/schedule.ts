@@ -0,0 +1,154 @@
+import type { FlowSchedule } from '../types';
+
+// Shortest interval a schedule may repeat at
+export const MIN_INTERVAL_MINUTES = 1;
+
+// Furthest ahead a cron expression is searched for its next match (leap days repeat every 4 years)
+const MAX_CRON_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+// Name and range of each cron field, in order
+const CRON_FIELDS = [
+  { name: 'Minute', min: 0, max: 59 },
+  { name: 'Hour', min: 0, max: 23 },
+  { name: 'Day of month', min: 1, max: 31 },
+  { name: 'Month', min: 1, max: 12 },
+  { name: 'Day of week', min: 0, max: 7 },
+];
+
+// Values matched by each field of a parsed cron expression
+interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Whether the day fields are "*"; when both are restricted a day matching either one is due
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+// Parse one cron field, e.g. "*", "*/15", "1-5", "0,30" or "9-17/2"
+function parseCronField(field: string, name: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match || (match[1] === '*' && match[2] !== undefined)) {
+      throw new Error(`${name} "${part}" is not valid`);
+    }
+
+    const [, start, end, step] = match;
+    const from = start === '*' ? min : Number(start);
+    const to = start === '*' || (end === undefined && step) ? max : Number(end ?? start);
+    const by = step ? Number(step) : 1;
+    if (from < min || to > max || from > to || by < 1) {
+      throw new Error(`${name} "${part}" is out of range (${min}-${max})`);
+    }
+
+    for (let value = from; value <= to; value += by) values.add(value);
+  }
+
+  return values;
+}
+
+// Parse a five-field cron expression, throwing an error that describes the invalid field
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error('Cron expressions have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    parseCronField(field, CRON_FIELDS[i].name, CRON_FIELDS[i].min, CRON_FIELDS[i].max)
+  );
+  // Both 0 and 7 mean Sunday
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*',
+  };
+}
+
+// Whether a date's day matches the day-of-month and day-of-week fields
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const day = cron.days.has(date.getDate());
+  const weekday = cron.weekdays.has(date.getDay());
+  if (cron.anyDay) return weekday;
+  if (cron.anyWeekday) return day;
+  return day || weekday;
+}
+
+// First time after the given one that matches a cron expression, or null if it never matches
+export function getNextCronTime(expression: string, after: number): number | null {
+  const cron = parseCron(expression);
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Skip whole months, days and hours that cannot match
+  while (date.getTime() - after <= MAX_CRON_SEARCH_MS) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+
+  return null;
+}
+
+// Time a schedule next runs after the given time, or null if it never does
+export function getNextRunTime(schedule: FlowSchedule, after: number = Date.now()): number | null {
+  if (schedule.kind === 'cron') {
+    return getNextCronTime(schedule.cron || '', after);
+  }
+  return after + (schedule.intervalMinutes || MIN_INTERVAL_MINUTES) * 60 * 1000;
+}
+
+// Check a schedule for invalid timing, returning an error message or null
+export function validateSchedule(schedule: FlowSchedule): string | null {
+  if (schedule.kind === 'interval') {
+    const minutes = schedule.intervalMinutes;
+    if (minutes === undefined || !Number.isInteger(minutes) || minutes < MIN_INTERVAL_MINUTES) {
+      return `Interval must be a whole number of at least ${MIN_INTERVAL_MINUTES} minute`;
+    }
+    return null;
+  }
+
+  try {
+    if (getNextCronTime(schedule.cron || '', Date.now()) === null) {
+      return 'Cron expression never matches a date';
+    }
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+// Short description of when a schedule runs, e.g. "Every 2 hours"
+export function describeSchedule(schedule: FlowSchedule): string {
+  if (schedule.kind === 'cron') {
+    return `Cron ${schedule.cron}`;
+  }
+
+  const minutes = schedule.intervalMinutes || MIN_INTERVAL_MINUTES;
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? 'Every hour' : `Every ${hours} hours`;
+  }
+  return minutes === 1 ? 'Every minute' : `Every ${minutes} minutes`;
+}
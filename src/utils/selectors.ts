@@ -1,4 +1,17 @@
-import type { ElementSelector } from '../types';
+import type {
+  BoundingBox,
+  CandidateStrategy,
+  ElementSelector,
+  SelectorCandidate,
+} from '../types';
+import {
+  attributeSelector,
+  deepQuerySelectorAll,
+  getAccessibleName,
+  getElementRole,
+  normalizeText,
+  queryCandidate,
+} from './locator';
 
 // Generate a unique CSS selector for an element
 export function generateCssSelector(element: Element): string {
@@ -10,26 +23,26 @@ export function generateCssSelector(element: Element): string {
   // Priority 2: data-testid (designed for testing)
   const testId = element.getAttribute('data-testid') || element.getAttribute('data-test-id');
   if (testId) {
-    return `[data-testid="${CSS.escape(testId)}"]`;
+    return attributeSelector('data-testid', testId);
   }
 
   // Priority 3: name attribute (common for form elements)
   const name = element.getAttribute('name');
   if (name) {
     const tagName = element.tagName.toLowerCase();
-    return `${tagName}[name="${CSS.escape(name)}"]`;
+    return tagName + attributeSelector('name', name);
   }
 
   // Priority 4: aria-label (accessibility attribute, usually stable)
   const ariaLabel = element.getAttribute('aria-label');
   if (ariaLabel && ariaLabel.length < 50) {
-    return `[aria-label="${CSS.escape(ariaLabel)}"]`;
+    return attributeSelector('aria-label', ariaLabel);
   }
 
   // Priority 5: placeholder (for inputs)
   const placeholder = element.getAttribute('placeholder');
   if (placeholder && placeholder.length < 50) {
-    return `[placeholder="${CSS.escape(placeholder)}"]`;
+    return attributeSelector('placeholder', placeholder);
   }
 
   // Priority 6: Build a path from the element to root
@@ -167,223 +180,192 @@ export function getElementText(element: Element): string | undefined {
   return undefined;
 }
 
-// Generate complete element selector
-export function generateElementSelector(element: Element): ElementSelector {
-  return {
-    css: generateCssSelector(element),
-    xpath: generateXPath(element),
-    text: getElementText(element),
-    tagName: element.tagName.toLowerCase(),
-    attributes: getElementAttributes(element),
-  };
+// Attributes meant for tests, most specific first
+const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-cy', 'data-qa'];
+
+// Attributes combined into attribute candidates, in the order they are added
+const CANDIDATE_ATTRIBUTES = [
+  'name',
+  'type',
+  'placeholder',
+  'aria-label',
+  'title',
+  'alt',
+  'for',
+  'value',
+  'href',
+];
+
+// Deepest path a path candidate walks up before giving up on being unique
+const MAX_PATH_DEPTH = 4;
+
+// Longest text or accessible name a candidate uses
+const MAX_CANDIDATE_TEXT = 80;
+
+// Stability of each kind of candidate before adjustments, out of 100
+const BASE_SCORES: Record<CandidateStrategy, number> = {
+  'data-testid': 95,
+  id: 90,
+  role: 80,
+  attributes: 70,
+  text: 60,
+  path: 40,
+};
+
+// IDs that look generated by a framework or build tool change between page loads
+function isGeneratedId(id: string): boolean {
+  return /\d{3,}|[0-9a-f]{8,}|^[:_-]|:/i.test(id);
 }
 
-// Recursively search through Shadow DOM
-function querySelectorDeep(root: Document | Element | ShadowRoot, cssSelector: string): Element | null {
-  // Try in current root
-  try {
-    const element = root.querySelector(cssSelector);
-    if (element) return element;
-  } catch {
-    // Invalid selector
-  }
+// Score a candidate: its base score, lowered for values that tend to change and for
+// selectors that did not single out the element
+function scoreCandidate(candidate: Omit<SelectorCandidate, 'score'>): number {
+  let score = BASE_SCORES[candidate.strategy];
+  const text = candidate.strategy === 'role' ? candidate.name || '' : candidate.value;
 
-  // Search in shadow roots
-  const allElements = root.querySelectorAll('*');
-  for (const el of allElements) {
-    if (el.shadowRoot) {
-      const found = querySelectorDeep(el.shadowRoot, cssSelector);
-      if (found) return found;
-    }
+  if (candidate.strategy === 'id' && isGeneratedId(candidate.value)) score -= 50;
+  if (candidate.strategy === 'role' || candidate.strategy === 'text') {
+    if (text.length > 40) score -= 20;
+    if (/\d/.test(text)) score -= 10;
+  }
+  if (candidate.strategy === 'path') {
+    score -= (candidate.value.split(' > ').length - 1) * 5;
+    if (candidate.value.includes(':nth-of-type')) score -= 10;
   }
+  if (candidate.matches !== 1) score -= 40;
 
-  return null;
+  return Math.max(0, Math.min(100, score));
 }
 
-// Find all elements matching selector, including in Shadow DOM
-function querySelectorAllDeep(root: Document | Element | ShadowRoot, cssSelector: string): Element[] {
-  const results: Element[] = [];
-
-  try {
-    const elements = root.querySelectorAll(cssSelector);
-    results.push(...Array.from(elements));
-  } catch {
-    // Invalid selector
-  }
-
-  // Search in shadow roots
-  const allElements = root.querySelectorAll('*');
-  for (const el of allElements) {
-    if (el.shadowRoot) {
-      results.push(...querySelectorAllDeep(el.shadowRoot, cssSelector));
-    }
+// Stable selector of an element on its own (test ID, or an ID that does not look generated)
+function getAnchorSelector(element: Element): string | null {
+  for (const attr of TEST_ID_ATTRIBUTES) {
+    const value = element.getAttribute(attr);
+    if (value) return attributeSelector(attr, value);
   }
+  if (element.id && !isGeneratedId(element.id)) return `#${CSS.escape(element.id)}`;
+  return null;
+}
 
-  return results;
+// Tag name of an element, with its position among siblings of the same tag when needed
+function getPathSegment(element: Element): string {
+  const tagName = element.tagName.toLowerCase();
+  const parent = element.parentElement;
+  if (!parent) return tagName;
+  const sameTag = Array.from(parent.children).filter((child) => child.tagName === element.tagName);
+  return sameTag.length > 1 ? `${tagName}:nth-of-type(${sameTag.indexOf(element) + 1})` : tagName;
 }
 
-// Find element by text content, including Shadow DOM
-function findByTextDeep(root: Document | Element | ShadowRoot, tagName: string, text: string): Element | null {
-  const elements = root.querySelectorAll(tagName);
-  for (const el of elements) {
-    if (el.textContent?.trim() === text) {
-      return el;
-    }
+// Tag plus attributes, adding one attribute at a time until the selector is unique
+function generateAttributeSelector(element: Element): string | null {
+  let selector = element.tagName.toLowerCase();
+  let added = 0;
+  for (const attr of CANDIDATE_ATTRIBUTES) {
+    const value = element.getAttribute(attr);
+    if (!value || value.length > MAX_CANDIDATE_TEXT) continue;
+    selector += attributeSelector(attr, value);
+    added++;
+    if (added >= 3 || deepQuerySelectorAll(selector).length === 1) break;
   }
+  return added > 0 ? selector : null;
+}
+
+// Shortest path from the closest stable ancestor (or just far enough up to be unique)
+function generatePathSelector(element: Element): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
 
-  // Search in shadow roots
-  const allElements = root.querySelectorAll('*');
-  for (const el of allElements) {
-    if (el.shadowRoot) {
-      const found = findByTextDeep(el.shadowRoot, tagName, text);
-      if (found) return found;
+  while (current && current !== document.documentElement && segments.length < MAX_PATH_DEPTH) {
+    const anchor = current !== element ? getAnchorSelector(current) : null;
+    if (anchor) {
+      segments.unshift(anchor);
+      break;
     }
+    segments.unshift(getPathSegment(current));
+    if (deepQuerySelectorAll(segments.join(' > ')).length === 1) break;
+    current = current.parentElement;
   }
 
-  return null;
+  return segments.join(' > ');
 }
 
-// Find element using selector (tries multiple strategies)
-export function findElement(selector: ElementSelector): Element | null {
-  console.log('Flow Recorder: Finding element with selector:', {
-    css: selector.css,
-    xpath: selector.xpath,
-    text: selector.text,
-    tagName: selector.tagName,
-  });
-
-  // Try CSS selector first (with Shadow DOM support)
-  const elementByCss = querySelectorDeep(document, selector.css);
-  if (elementByCss) {
-    console.log('Flow Recorder: Found element via CSS selector');
-    return elementByCss;
-  }
+// Generate the ways of finding an element, checked for uniqueness in the page, scored
+// for stability and ranked: unique candidates first, then by score
+export function generateSelectorCandidates(element: Element): SelectorCandidate[] {
+  const tagName = element.tagName.toLowerCase();
+  const found: Omit<SelectorCandidate, 'matches' | 'score'>[] = [];
 
-  // Try XPath (doesn't support Shadow DOM, but try anyway)
-  try {
-    const result = document.evaluate(
-      selector.xpath,
-      document,
-      null,
-      XPathResult.FIRST_ORDERED_NODE_TYPE,
-      null
-    );
-    if (result.singleNodeValue) {
-      console.log('Flow Recorder: Found element via XPath');
-      return result.singleNodeValue as Element;
-    }
-  } catch (e) {
-    console.log('Flow Recorder: XPath evaluation failed:', e);
+  if (element.id) {
+    found.push({ strategy: 'id', value: `#${CSS.escape(element.id)}` });
   }
 
-  // Try finding by text content (with Shadow DOM support)
-  if (selector.text) {
-    const elementByText = findByTextDeep(document, selector.tagName, selector.text);
-    if (elementByText) {
-      console.log('Flow Recorder: Found element via text content');
-      return elementByText;
-    }
+  const testIdAttr = TEST_ID_ATTRIBUTES.find((attr) => element.getAttribute(attr));
+  if (testIdAttr) {
+    const testId = element.getAttribute(testIdAttr)!;
+    found.push({ strategy: 'data-testid', value: attributeSelector(testIdAttr, testId) });
   }
 
-  // Try finding by ID
-  if (selector.attributes.id) {
-    const elementById = document.getElementById(selector.attributes.id);
-    if (elementById) {
-      console.log('Flow Recorder: Found element via ID');
-      return elementById;
-    }
+  const role = getElementRole(element);
+  const name = getAccessibleName(element);
+  if (role && name && name.length <= MAX_CANDIDATE_TEXT) {
+    found.push({ strategy: 'role', value: role, name });
   }
 
-  // Try finding by name attribute
-  if (selector.attributes.name) {
-    const elementByName = querySelectorDeep(document, `[name="${CSS.escape(selector.attributes.name)}"]`);
-    if (elementByName) {
-      console.log('Flow Recorder: Found element via name attribute');
-      return elementByName;
-    }
+  const text = normalizeText(element.textContent);
+  if (text && text.length <= MAX_CANDIDATE_TEXT && tagName !== 'select' && tagName !== 'textarea') {
+    found.push({ strategy: 'text', value: text });
   }
 
-  // Try finding by aria-label
-  if (selector.attributes['aria-label']) {
-    const elementByAria = querySelectorDeep(
-      document,
-      `[aria-label="${CSS.escape(selector.attributes['aria-label'])}"]`
-    );
-    if (elementByAria) {
-      console.log('Flow Recorder: Found element via aria-label');
-      return elementByAria;
-    }
+  const byAttributes = generateAttributeSelector(element);
+  if (byAttributes) {
+    found.push({ strategy: 'attributes', value: byAttributes });
   }
 
-  // Try finding by placeholder
-  if (selector.attributes.placeholder) {
-    const elementByPlaceholder = querySelectorDeep(
-      document,
-      `[placeholder="${CSS.escape(selector.attributes.placeholder)}"]`
-    );
-    if (elementByPlaceholder) {
-      console.log('Flow Recorder: Found element via placeholder');
-      return elementByPlaceholder;
-    }
-  }
+  found.push({ strategy: 'path', value: generatePathSelector(element) });
 
-  // Try finding by data-testid
-  if (selector.attributes['data-testid']) {
-    const elementByTestId = querySelectorDeep(
-      document,
-      `[data-testid="${CSS.escape(selector.attributes['data-testid'])}"]`
-    );
-    if (elementByTestId) {
-      console.log('Flow Recorder: Found element via data-testid');
-      return elementByTestId;
-    }
-  }
+  const candidates = found
+    .filter((c, i) => found.findIndex((o) => o.value === c.value && o.name === c.name) === i)
+    .map((c) => {
+      const matches = queryCandidate({ ...c, matches: 0, score: 0 }, tagName).length;
+      return { ...c, matches, score: scoreCandidate({ ...c, matches }) };
+    });
 
-  // Try finding by role + text combination
-  if (selector.attributes.role && selector.text) {
-    const elementsByRole = querySelectorAllDeep(document, `[role="${selector.attributes.role}"]`);
-    for (const el of elementsByRole) {
-      if (el.textContent?.trim() === selector.text) {
-        console.log('Flow Recorder: Found element via role + text');
-        return el;
-      }
-    }
-  }
+  return candidates.sort(
+    (a, b) => Number(b.matches === 1) - Number(a.matches === 1) || b.score - a.score
+  );
+}
 
-  // Last resort: find by tag and approximate text match
-  if (selector.text) {
-    const allByTag = querySelectorAllDeep(document, selector.tagName);
-    for (const el of allByTag) {
-      const elText = el.textContent?.trim() || '';
-      if (elText.includes(selector.text) || selector.text.includes(elText)) {
-        console.log('Flow Recorder: Found element via approximate text match');
-        return el;
-      }
-    }
+// Short label of a candidate, e.g. for lists of candidates
+export function describeCandidate(candidate: SelectorCandidate): string {
+  switch (candidate.strategy) {
+    case 'role':
+      return `role=${candidate.value} "${candidate.name}"`;
+    case 'text':
+      return `text "${candidate.value}"`;
+    default:
+      return candidate.value;
   }
-
-  console.log('Flow Recorder: Element not found with any strategy');
-  return null;
 }
 
-// Find element with retry (for dynamic content)
-export async function findElementWithRetry(
-  selector: ElementSelector,
-  maxAttempts: number = 10,
-  intervalMs: number = 500
-): Promise<Element | null> {
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    const element = findElement(selector);
-    if (element) {
-      return element;
-    }
-
-    if (attempt < maxAttempts) {
-      console.log(`Flow Recorder: Element not found, attempt ${attempt}/${maxAttempts}. Retrying in ${intervalMs}ms...`);
-      await new Promise(resolve => setTimeout(resolve, intervalMs));
-    }
-  }
+// Generate complete element selector
+export function generateElementSelector(element: Element): ElementSelector {
+  return {
+    css: generateCssSelector(element),
+    xpath: generateXPath(element),
+    text: getElementText(element),
+    tagName: element.tagName.toLowerCase(),
+    attributes: getElementAttributes(element),
+    candidates: generateSelectorCandidates(element),
+  };
+}
 
-  console.error('Flow Recorder: Element not found after all retries');
-  return null;
+// Get the viewport-relative bounding box of an element
+export function getBoundingBox(element: Element): BoundingBox {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: Math.round(rect.left),
+    y: Math.round(rect.top),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+  };
 }
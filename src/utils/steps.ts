@@ -0,0 +1,167 @@
+import type { Flow, RecordedStep } from '../types';
+import { describeDialog } from './dialogs';
+
+// Human-readable summary of an assert step
+function getAssertionDescription(step: RecordedStep): string {
+  const assertion = step.assertion;
+  if (!assertion) return 'Assert';
+
+  const target = `"${step.target.css.substring(0, 40)}"`;
+  const comparison = `${assertion.operator || 'equals'} "${assertion.expected?.substring(0, 30) || ''}"`;
+
+  switch (assertion.kind) {
+    case 'exists':
+      return `Assert ${target} exists`;
+    case 'visible':
+      return `Assert ${target} is visible`;
+    case 'text':
+      return `Assert text of ${target} ${comparison}`;
+    case 'attribute':
+      return `Assert ${assertion.attribute} of ${target} ${comparison}`;
+    case 'value':
+      return `Assert value of ${target} ${comparison}`;
+    case 'count':
+      return `Assert ${assertion.expected} elements match ${target}`;
+    case 'url':
+      return `Assert URL ${comparison}`;
+    case 'title':
+      return `Assert title ${comparison}`;
+    default:
+      return 'Assert';
+  }
+}
+
+// Human-readable summary of a condition step
+function getConditionDescription(step: RecordedStep): string {
+  const condition = step.condition;
+  if (!condition) return 'If';
+
+  const target = `"${step.target.css.substring(0, 40)}"`;
+  const not = condition.negate ? 'not ' : '';
+  const comparison = `${not}${condition.operator || 'equals'} "${condition.expected?.substring(0, 30) || ''}"`;
+
+  switch (condition.kind) {
+    case 'exists':
+      return `If ${target} ${condition.negate ? 'does not exist' : 'exists'}`;
+    case 'visible':
+      return `If ${target} is ${not}visible`;
+    case 'text':
+      return `If text of ${target} ${comparison}`;
+    case 'url':
+      return `If URL ${comparison}`;
+    default:
+      return 'If';
+  }
+}
+
+// Human-readable summary of a loop step
+function getLoopDescription(step: RecordedStep): string {
+  const loop = step.loop;
+  if (!loop) return 'Loop';
+
+  const target = `"${step.target.css.substring(0, 40)}"`;
+
+  switch (loop.kind) {
+    case 'repeat':
+      return `Repeat ${loop.count ?? 0} times`;
+    case 'while':
+      return `While ${target} exists`;
+    case 'for-each':
+      return `For each ${target}`;
+    default:
+      return 'Loop';
+  }
+}
+
+// Human-readable summary of an extract step
+function getExtractDescription(step: RecordedStep): string {
+  const extract = step.extract;
+  if (!extract) return 'Extract';
+
+  const target = `"${step.target.css.substring(0, 40)}"`;
+  const into = `into {{${extract.variable}}}`;
+
+  switch (extract.source) {
+    case 'text':
+      return `Extract text of ${target} ${into}`;
+    case 'attribute':
+      return `Extract ${extract.attribute} of ${target} ${into}`;
+    case 'value':
+      return `Extract value of ${target} ${into}`;
+    case 'table':
+      return `Extract table ${target} ${into}`;
+    default:
+      return 'Extract';
+  }
+}
+
+// Human-readable summary of a step (flows are used to name the flow a run-flow step calls)
+export function getStepDescription(step: RecordedStep, flows: Flow[] = []): string {
+  switch (step.type) {
+    case 'click':
+      return `Click on ${step.target.tagName}${step.target.text ? ` "${step.target.text.substring(0, 30)}"` : ''}`;
+    case 'input':
+      return `Type "${step.value?.substring(0, 30) || ''}" into ${step.target.tagName}`;
+    case 'select':
+      return `Select "${step.value || ''}" in ${step.target.tagName}`;
+    case 'scroll':
+      return `Scroll to position (${step.scrollPosition?.x || 0}, ${step.scrollPosition?.y || 0})`;
+    case 'keypress':
+      return `Press ${step.value} key`;
+    case 'navigation':
+      return `Navigate to ${step.url?.substring(0, 50) || 'page'}`;
+    case 'wait':
+      return `Wait ${step.delay}ms`;
+    case 'assert':
+      return getAssertionDescription(step);
+    case 'condition':
+      return getConditionDescription(step);
+    case 'loop':
+      return getLoopDescription(step);
+    case 'extract':
+      return getExtractDescription(step);
+    case 'dialog':
+      return step.dialog ? describeDialog(step.dialog) : 'Dialog';
+    case 'run-flow': {
+      const called = flows.find((f) => f.id === step.subFlow?.flowId);
+      if (called) return `Run flow "${called.name}"`;
+      return flows.length > 0 ? 'Run flow (missing)' : 'Run flow';
+    }
+    default:
+      return step.type;
+  }
+}
+
+// Icon shown next to a step of the given type
+export function getStepIcon(type: string): string {
+  switch (type) {
+    case 'click':
+      return '👆';
+    case 'input':
+      return '⌨️';
+    case 'select':
+      return '📋';
+    case 'scroll':
+      return '📜';
+    case 'keypress':
+      return '⌨️';
+    case 'navigation':
+      return '🌐';
+    case 'wait':
+      return '⏱️';
+    case 'assert':
+      return '✔️';
+    case 'condition':
+      return '🔀';
+    case 'loop':
+      return '🔁';
+    case 'run-flow':
+      return '↪️';
+    case 'extract':
+      return '📥';
+    case 'dialog':
+      return '💬';
+    default:
+      return '•';
+  }
+}
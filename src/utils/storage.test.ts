@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PlaybackRun } from '../types';
+import { getRuns, saveRun } from './storage';
+
+// In-memory chrome.storage.local whose reads and writes resolve on later ticks, like the
+// real one
+function stubStorage() {
+  const store: Record<string, unknown> = {};
+  const tick = () => new Promise((r) => setTimeout(r, 0));
+  vi.stubGlobal('chrome', {
+    storage: {
+      local: {
+        get: async (key: string) => {
+          await tick();
+          return { [key]: structuredClone(store[key]) };
+        },
+        set: async (items: Record<string, unknown>) => {
+          await tick();
+          Object.assign(store, structuredClone(items));
+        },
+        remove: async () => {},
+      },
+    },
+  });
+}
+
+function run(id: string, status: PlaybackRun['status']): PlaybackRun {
+  return {
+    id,
+    flowId: 'flow-1',
+    flowName: 'Flow',
+    startedAt: Number(id.replace(/\D/g, '')),
+    status,
+    steps: [],
+    rowResults: [],
+  };
+}
+
+beforeEach(() => {
+  stubStorage();
+});
+
+describe('saveRun', () => {
+  it('keeps every change when sessions save their runs at the same time', async () => {
+    await Promise.all([saveRun(run('run-1', 'running')), saveRun(run('run-2', 'running'))]);
+    await Promise.all([saveRun(run('run-1', 'passed')), saveRun(run('run-2', 'failed'))]);
+
+    const statuses = (await getRuns('flow-1')).map((r) => [r.id, r.status]);
+    expect(statuses).toEqual([
+      ['run-2', 'failed'],
+      ['run-1', 'passed'],
+    ]);
+  });
+});
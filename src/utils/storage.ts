@@ -1,26 +1,60 @@
-import type { Flow, StorageData } from '../types';
+import type { Flow, FlowSchedule, PlaybackRun, SelectorHeal, StorageData } from '../types';
+import { regenerateStepIds } from './blocks';
+
+// Oldest runs beyond this count are dropped from each flow's history
+const MAX_RUNS_PER_FLOW = 50;
+
+// Oldest heal log entries beyond this count are dropped from each flow's log
+const MAX_HEALS_PER_FLOW = 50;
+
+// Screenshots are stored under their own keys so run records stay small
+const SCREENSHOT_KEY_PREFIX = 'screenshot:';
 
 const DEFAULT_STORAGE: StorageData = {
   flows: [],
   settings: {
     defaultPlaybackSpeed: 1,
     highlightElements: true,
-    stopOnError: true,
+    maxConcurrentSessions: 3,
   },
 };
 
+// Latest pending update of each storage key. Updates of a key run one after another, so
+// concurrent playback sessions do not overwrite each other's changes.
+const keyUpdates = new Map<string, Promise<void>>();
+
+// Read a storage key, change its value and write it back once earlier updates of it are done
+function updateKey<T>(key: string, update: (value: T | undefined) => T): Promise<void> {
+  const previous = keyUpdates.get(key) ?? Promise.resolve();
+  const next = previous
+    .catch(() => {
+      // A failed update does not block the next one; its caller got the error
+    })
+    .then(async () => {
+      const data = await chrome.storage.local.get(key);
+      await chrome.storage.local.set({ [key]: update(data[key]) });
+    });
+  keyUpdates.set(key, next);
+  return next;
+}
+
 // Get all data from storage
 export async function getStorageData(): Promise<StorageData> {
   const data = await chrome.storage.local.get(['flows', 'settings']);
+  // stopOnError was replaced by the failure action of step policies; drop it so it is not
+  // saved again
+  const savedSettings = { ...data.settings };
+  delete savedSettings.stopOnError;
   return {
     flows: data.flows || DEFAULT_STORAGE.flows,
-    settings: data.settings || DEFAULT_STORAGE.settings,
+    // Settings saved before newer options existed get their defaults
+    settings: { ...DEFAULT_STORAGE.settings, ...savedSettings },
   };
 }
 
 // Save all flows
 export async function saveFlows(flows: Flow[]): Promise<void> {
-  await chrome.storage.local.set({ flows });
+  await updateKey<Flow[]>('flows', () => flows);
 }
 
 // Get all flows
@@ -37,34 +71,31 @@ export async function getFlow(flowId: string): Promise<Flow | undefined> {
 
 // Save a single flow (create or update)
 export async function saveFlow(flow: Flow): Promise<void> {
-  const flows = await getFlows();
-  const existingIndex = flows.findIndex((f) => f.id === flow.id);
-
-  if (existingIndex >= 0) {
-    flows[existingIndex] = { ...flow, updatedAt: Date.now() };
-  } else {
-    flows.push(flow);
-  }
-
-  await saveFlows(flows);
+  await updateKey<Flow[]>('flows', (flows = []) => {
+    const existingIndex = flows.findIndex((f) => f.id === flow.id);
+
+    if (existingIndex >= 0) {
+      flows[existingIndex] = { ...flow, updatedAt: Date.now() };
+    } else {
+      flows.push(flow);
+    }
+    return flows;
+  });
 }
 
 // Delete a flow
 export async function deleteFlow(flowId: string): Promise<void> {
-  const flows = await getFlows();
-  const filtered = flows.filter((f) => f.id !== flowId);
-  await saveFlows(filtered);
+  await updateKey<Flow[]>('flows', (flows = []) => flows.filter((f) => f.id !== flowId));
+  await deleteRuns(flowId);
+  await deleteSchedules(flowId);
+  await deleteHeals(flowId);
 }
 
 // Update flow name
 export async function renameFlow(flowId: string, newName: string): Promise<void> {
-  const flows = await getFlows();
-  const flow = flows.find((f) => f.id === flowId);
-  if (flow) {
-    flow.name = newName;
-    flow.updatedAt = Date.now();
-    await saveFlows(flows);
-  }
+  await updateKey<Flow[]>('flows', (flows = []) =>
+    flows.map((f) => (f.id === flowId ? { ...f, name: newName, updatedAt: Date.now() } : f))
+  );
 }
 
 // Get settings
@@ -95,12 +126,126 @@ export async function duplicateFlow(flowId: string): Promise<Flow | null> {
     name: `${flow.name} (Copy)`,
     createdAt: Date.now(),
     updatedAt: Date.now(),
-    steps: flow.steps.map((step) => ({
-      ...step,
-      id: generateId(),
-    })),
+    steps: regenerateStepIds(flow.steps, generateId),
   };
 
   await saveFlow(newFlow);
   return newFlow;
 }
+
+// Get playback run history, newest first (optionally for a single flow)
+export async function getRuns(flowId?: string): Promise<PlaybackRun[]> {
+  const data = await chrome.storage.local.get('runs');
+  const runs: PlaybackRun[] = data.runs || [];
+  return runs
+    .filter((r) => !flowId || r.flowId === flowId)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Save a playback run (create or update), trimming old runs of the same flow
+export async function saveRun(run: PlaybackRun): Promise<void> {
+  let droppedRuns: PlaybackRun[] = [];
+  await updateKey<PlaybackRun[]>('runs', (stored = []) => {
+    const runs = [...stored.filter((r) => r.id !== run.id), run];
+    droppedRuns = runs
+      .filter((r) => r.flowId === run.flowId)
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .slice(MAX_RUNS_PER_FLOW);
+    const dropped = new Set(droppedRuns.map((r) => r.id));
+    return runs.filter((r) => !dropped.has(r.id));
+  });
+  await deleteRunScreenshots(droppedRuns);
+}
+
+// Delete the run history of a flow
+export async function deleteRuns(flowId: string): Promise<void> {
+  let deletedRuns: PlaybackRun[] = [];
+  await updateKey<PlaybackRun[]>('runs', (runs = []) => {
+    deletedRuns = runs.filter((r) => r.flowId === flowId);
+    return runs.filter((r) => r.flowId !== flowId);
+  });
+  await deleteRunScreenshots(deletedRuns);
+}
+
+// Save a screenshot data URL under its own storage key
+export async function saveScreenshot(screenshotId: string, dataUrl: string): Promise<void> {
+  await chrome.storage.local.set({ [SCREENSHOT_KEY_PREFIX + screenshotId]: dataUrl });
+}
+
+// Get a screenshot data URL by ID
+export async function getScreenshot(screenshotId: string): Promise<string | undefined> {
+  const key = SCREENSHOT_KEY_PREFIX + screenshotId;
+  const data = await chrome.storage.local.get(key);
+  return data[key];
+}
+
+// Delete the screenshots referenced by the given runs
+async function deleteRunScreenshots(runs: PlaybackRun[]): Promise<void> {
+  const keys = runs.flatMap((r) =>
+    r.steps.filter((s) => s.screenshotId).map((s) => SCREENSHOT_KEY_PREFIX + s.screenshotId)
+  );
+  if (keys.length > 0) {
+    await chrome.storage.local.remove(keys);
+  }
+}
+
+// Get schedules (optionally for a single flow)
+export async function getSchedules(flowId?: string): Promise<FlowSchedule[]> {
+  const data = await chrome.storage.local.get('schedules');
+  const schedules: FlowSchedule[] = data.schedules || [];
+  return schedules.filter((s) => !flowId || s.flowId === flowId);
+}
+
+// Save a schedule (create or update)
+export async function saveSchedule(schedule: FlowSchedule): Promise<void> {
+  await updateKey<FlowSchedule[]>('schedules', (schedules = []) => [
+    ...schedules.filter((s) => s.id !== schedule.id),
+    schedule,
+  ]);
+}
+
+// Delete a schedule
+export async function deleteSchedule(scheduleId: string): Promise<void> {
+  await updateKey<FlowSchedule[]>('schedules', (schedules = []) =>
+    schedules.filter((s) => s.id !== scheduleId)
+  );
+}
+
+// Delete the schedules of a flow
+async function deleteSchedules(flowId: string): Promise<void> {
+  await updateKey<FlowSchedule[]>('schedules', (schedules = []) =>
+    schedules.filter((s) => s.flowId !== flowId)
+  );
+}
+
+// Get the heal log, newest first (optionally for a single flow)
+export async function getHeals(flowId?: string): Promise<SelectorHeal[]> {
+  const data = await chrome.storage.local.get('heals');
+  const heals: SelectorHeal[] = data.heals || [];
+  return heals
+    .filter((h) => !flowId || h.flowId === flowId)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Save a heal log entry (create or update), trimming old entries of the same flow
+export async function saveHeal(heal: SelectorHeal): Promise<void> {
+  await updateKey<SelectorHeal[]>('heals', (stored = []) => {
+    const heals = [heal, ...stored.filter((h) => h.id !== heal.id)].sort(
+      (a, b) => b.createdAt - a.createdAt
+    );
+    const dropped = new Set(
+      heals
+        .filter((h) => h.flowId === heal.flowId)
+        .slice(MAX_HEALS_PER_FLOW)
+        .map((h) => h.id)
+    );
+    return heals.filter((h) => !dropped.has(h.id));
+  });
+}
+
+// Delete the heal log of a flow
+async function deleteHeals(flowId: string): Promise<void> {
+  await updateKey<SelectorHeal[]>('heals', (heals = []) =>
+    heals.filter((h) => h.flowId !== flowId)
+  );
+}
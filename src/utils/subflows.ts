@@ -0,0 +1,72 @@
+import type { Flow, RecordedStep } from '../types';
+import { flattenSteps, getBranchSteps, getStepBranches, setBranchSteps } from './blocks';
+
+// Run-flow steps of a flow, including nested ones
+export function getSubFlowSteps(flow: Flow): RecordedStep[] {
+  return flattenSteps(flow.steps).filter((step) => step.type === 'run-flow' && step.subFlow);
+}
+
+// IDs of the flows a flow calls directly
+export function getCalledFlowIds(flow: Flow): string[] {
+  const ids: string[] = [];
+  for (const step of getSubFlowSteps(flow)) {
+    if (!ids.includes(step.subFlow!.flowId)) {
+      ids.push(step.subFlow!.flowId);
+    }
+  }
+  return ids;
+}
+
+// Flows that call the given flow directly
+export function getCallingFlows(flowId: string, flows: Flow[]): Flow[] {
+  return flows.filter((flow) => getCalledFlowIds(flow).includes(flowId));
+}
+
+// Find a chain of calls leading from one flow back to another, e.g. [B, C, A] for B → C → A
+export function findCallPath(fromId: string, toId: string, flows: Flow[]): string[] | null {
+  const visited = new Set<string>();
+
+  const visit = (flowId: string): string[] | null => {
+    if (flowId === toId) return [flowId];
+    if (visited.has(flowId)) return null;
+    visited.add(flowId);
+
+    const flow = flows.find((f) => f.id === flowId);
+    for (const calledId of flow ? getCalledFlowIds(flow) : []) {
+      const path = visit(calledId);
+      if (path) return [flowId, ...path];
+    }
+    return null;
+  };
+
+  return visit(fromId);
+}
+
+// Describe the cycle a flow would be part of with its current steps, or null when there is none
+export function findSubFlowCycle(flow: Flow, flows: Flow[]): string | null {
+  const others = flows.filter((f) => f.id !== flow.id);
+  for (const calledId of getCalledFlowIds(flow)) {
+    const path = findCallPath(calledId, flow.id, [flow, ...others]);
+    if (path) {
+      const names = [flow.id, ...path].map((id) => flows.find((f) => f.id === id)?.name ?? id);
+      return names.join(' → ');
+    }
+  }
+  return null;
+}
+
+// Return a copy of the steps with run-flow references remapped (e.g. after importing flows with new IDs)
+export function remapSubFlowIds(
+  steps: RecordedStep[],
+  idMap: Record<string, string>
+): RecordedStep[] {
+  return steps.map((step) =>
+    getStepBranches(step).reduce(
+      (block, branch) =>
+        setBranchSteps(block, branch, remapSubFlowIds(getBranchSteps(block, branch), idMap)),
+      step.subFlow && idMap[step.subFlow.flowId]
+        ? { ...step, subFlow: { ...step.subFlow, flowId: idMap[step.subFlow.flowId] } }
+        : step
+    )
+  );
+}
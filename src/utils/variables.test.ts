@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { RecordedStep } from '../types';
+import { applyVariables, substituteCssVariables, substituteXPathVariables } from './variables';
+
+function step(target: Partial<RecordedStep['target']>): RecordedStep {
+  return {
+    id: 'step-1',
+    type: 'click',
+    timestamp: 0,
+    delay: 0,
+    target: {
+      css: '',
+      xpath: '',
+      tagName: 'button',
+      attributes: {},
+      candidates: [{ strategy: 'id', value: '#recorded', matches: 1, score: 90 }],
+      ...target,
+    },
+  };
+}
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('applyVariables', () => {
+  it('drops the candidates of targets whose selectors use variables', () => {
+    const applied = applyVariables(step({ css: '#row-{{id}}' }), { id: '7' });
+
+    expect(applied.target.css).toBe('#row-7');
+    expect(applied.target.candidates).toBeUndefined();
+  });
+
+  it('keeps the candidates of fixed targets', () => {
+    const applied = applyVariables(step({ css: '#save' }), { id: '7' });
+
+    expect(applied.target.candidates).toHaveLength(1);
+  });
+});
+
+describe('substituteCssVariables', () => {
+  it('keeps values with quotes and brackets inside quoted attribute values', () => {
+    document.body.innerHTML = `<button data-name='Say "hi" [now]'>Go</button>`;
+    const selector = substituteCssVariables('[data-name="{{name}}"]', { name: 'Say "hi" [now]' });
+
+    expect(document.querySelectorAll(selector)).toHaveLength(1);
+  });
+
+  it('escapes values placed in identifiers', () => {
+    document.body.innerHTML = '<button id="row-a.b">Go</button>';
+    const selector = substituteCssVariables('#row-{{id}}', { id: 'a.b' });
+
+    expect(document.querySelector(selector)?.id).toBe('row-a.b');
+  });
+});
+
+describe('substituteXPathVariables', () => {
+  it('keeps values with quotes inside string literals', () => {
+    document.body.innerHTML = `<span>It's "fine"</span><span>Other</span>`;
+    const xpath = substituteXPathVariables('//span[text()="{{text}}"]', { text: `It's "fine"` });
+    const result = document.evaluate(xpath, document, null, XPathResult.ANY_TYPE, null);
+
+    expect((result.iterateNext() as Element).textContent).toBe(`It's "fine"`);
+  });
+
+  it('leaves literals without placeholders untouched', () => {
+    expect(substituteXPathVariables(`//a[@href='/x'][{{n}}]`, { n: '2' })).toBe(
+      `//a[@href='/x'][2]`
+    );
+  });
+});
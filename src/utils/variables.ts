@@ -0,0 +1,183 @@
+import type { ExtractedValue, Flow, RecordedStep } from '../types';
+import { flattenSteps, getLoopVariableNames } from './blocks';
+import { isDynamicTarget } from './locator';
+
+// Matches {{name}} placeholders (whitespace inside the braces is ignored)
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// Replace {{name}} placeholders with their values, leaving unknown names untouched
+export function substituteVariables(text: string, variables: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+}
+
+// Quoted strings of a CSS selector (with backslash escapes) and the text between them
+const CSS_TOKEN_PATTERN = /(["'])((?:\\[\s\S]|(?!\1)[^\\])*)\1|[^"']+/g;
+
+// String literals of an XPath (which has no escapes) and the text between them
+const XPATH_TOKEN_PATTERN = /"[^"]*"|'[^']*'|[^"']+/g;
+
+// Variables with each value escaped
+function mapValues(
+  variables: Record<string, string>,
+  escape: (value: string) => string
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(variables).map(([name, value]) => [name, escape(value)])
+  );
+}
+
+// Replace placeholders in a CSS selector, escaping the values so they stay within the quoted
+// string or the identifier they are placed in (e.g. values containing quotes or brackets)
+export function substituteCssVariables(
+  selector: string,
+  variables: Record<string, string>
+): string {
+  const inString = mapValues(variables, (v) => v.replace(/[\\"']/g, '\\$&').replace(/\n/g, '\\a '));
+  const inIdentifier = mapValues(variables, (v) =>
+    v.replace(/[^\w-]/g, (c) => (c === '\n' ? '\\a ' : '\\' + c))
+  );
+  return selector.replace(CSS_TOKEN_PATTERN, (token, quote?: string, content?: string) =>
+    quote !== undefined && content !== undefined
+      ? quote + substituteVariables(content, inString) + quote
+      : substituteVariables(token, inIdentifier)
+  );
+}
+
+// XPath string literal of any text (concat() when it contains both kinds of quotes)
+function toXPathLiteral(text: string): string {
+  if (!text.includes('"')) return `"${text}"`;
+  if (!text.includes("'")) return `'${text}'`;
+  return `concat(${text
+    .split('"')
+    .map((part) => `"${part}"`)
+    .join(`, '"', `)})`;
+}
+
+// Replace placeholders in an XPath, rewriting string literals that hold them so values
+// containing quotes stay inside the literal
+export function substituteXPathVariables(xpath: string, variables: Record<string, string>): string {
+  return xpath.replace(XPATH_TOKEN_PATTERN, (token) => {
+    const quoted = token[0] === '"' || token[0] === "'";
+    if (!quoted) return substituteVariables(token, variables);
+    const content = token.slice(1, -1);
+    const substituted = substituteVariables(content, variables);
+    return substituted === content ? token : toXPathLiteral(substituted);
+  });
+}
+
+// List the variable names referenced by a string
+export function extractVariableNames(text: string): string[] {
+  const names: string[] = [];
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+// List every variable name referenced anywhere in a flow (names provided by loops and extract
+// steps excluded)
+export function getFlowVariableNames(flow: Flow): string[] {
+  const steps = flattenSteps(flow.steps);
+  const sources = [
+    flow.startUrl,
+    ...steps.flatMap((step) => [
+      step.value || '',
+      step.url || '',
+      step.target.css,
+      step.target.xpath,
+      step.assertion?.expected || '',
+      step.condition?.expected || '',
+      step.dialog?.response.promptText || '',
+      ...Object.values(step.subFlow?.bindings || {}),
+    ]),
+  ];
+  const providedNames = [
+    ...steps.flatMap(getLoopVariableNames),
+    ...steps.flatMap((step) =>
+      step.type === 'extract' && step.extract ? [step.extract.variable] : []
+    ),
+  ];
+  const names: string[] = [];
+  for (const source of sources) {
+    for (const name of extractVariableNames(source)) {
+      if (!names.includes(name) && !providedNames.includes(name)) {
+        names.push(name);
+      }
+    }
+  }
+  return names;
+}
+
+// Resolve the variables for a playback pass (dataset row values override flow defaults)
+export function getRowVariables(flow: Flow, rowIndex: number): Record<string, string> {
+  return {
+    ...(flow.variables || {}),
+    ...(flow.dataset?.rows[rowIndex] || {}),
+  };
+}
+
+// Variables holding the values captured by extract steps (tables as JSON)
+export function getExtractedVariables(
+  extracted: Record<string, ExtractedValue>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(extracted).map(([name, value]) => [
+      name,
+      typeof value === 'string' ? value : JSON.stringify(value),
+    ])
+  );
+}
+
+// Return a copy of the step with placeholders in its value, URL, target selectors, expected
+// assertion/condition values, dialog prompt text and sub-flow bindings substituted. Dynamic
+// targets (see isDynamicTarget) lose their recorded candidates, which would otherwise find the
+// recorded element whatever the values.
+export function applyVariables(
+  step: RecordedStep,
+  variables: Record<string, string>
+): RecordedStep {
+  return {
+    ...step,
+    target: {
+      ...step.target,
+      css: substituteCssVariables(step.target.css, variables),
+      xpath: substituteXPathVariables(step.target.xpath, variables),
+      candidates: isDynamicTarget(step.target) ? undefined : step.target.candidates,
+    },
+    value: step.value !== undefined ? substituteVariables(step.value, variables) : undefined,
+    url: step.url !== undefined ? substituteVariables(step.url, variables) : undefined,
+    assertion:
+      step.assertion?.expected !== undefined
+        ? { ...step.assertion, expected: substituteVariables(step.assertion.expected, variables) }
+        : step.assertion,
+    condition:
+      step.condition?.expected !== undefined
+        ? { ...step.condition, expected: substituteVariables(step.condition.expected, variables) }
+        : step.condition,
+    dialog:
+      step.dialog?.response.promptText !== undefined
+        ? {
+            ...step.dialog,
+            response: {
+              ...step.dialog.response,
+              promptText: substituteVariables(step.dialog.response.promptText, variables),
+            },
+          }
+        : step.dialog,
+    subFlow: step.subFlow?.bindings
+      ? {
+          ...step.subFlow,
+          bindings: Object.fromEntries(
+            Object.entries(step.subFlow.bindings).map(([name, value]) => [
+              name,
+              substituteVariables(value, variables),
+            ])
+          ),
+        }
+      : step.subFlow,
+  };
+}
@@ -6,6 +6,8 @@ module.exports = {
   entry: {
     'service-worker': './src/background/service-worker.ts',
     content: './src/content/index.ts',
+    'dialog-hook': './src/content/dialog-hook.ts',
+    'network-hook': './src/content/network-hook.ts',
     popup: './src/popup/index.tsx',
     editor: './src/pages/editor/index.tsx',
   },